@@ -0,0 +1,258 @@
+import { describe, it, expect } from '@jest/globals';
+import zlib from 'zlib';
+import { Readable } from 'stream';
+import AdmZip from 'adm-zip';
+import {
+  openArchive,
+  bufferSource,
+  parseTar,
+  parseZip,
+  isSupportedArchive,
+  stripArchiveExtension,
+  validateArchiveLimits,
+  isExecutableMode,
+  isSymlinkMode,
+  ArchiveEntry,
+} from './archive.js';
+
+function tarHeader(name: string, size: number, typeFlag: string, mode: string = '0000644', linkName: string = ''): Buffer {
+  const header = Buffer.alloc(512);
+  header.write(name, 0, 100, 'utf-8');
+  header.write(mode + '\0', 100);
+  header.write('0000000\0', 108);
+  header.write('0000000\0', 116);
+  header.write(size.toString(8).padStart(11, '0') + '\0', 124);
+  header.write('00000000000\0', 136);
+  header.write(typeFlag, 156);
+  header.write(linkName, 157, 100, 'utf-8');
+  header.write('ustar\0', 257);
+  header.write('00', 263);
+
+  header.fill(0x20, 148, 156);
+  let sum = 0;
+  for (const byte of header) sum += byte;
+  header.write(sum.toString(8).padStart(6, '0') + '\0 ', 148);
+
+  return header;
+}
+
+async function readStream(stream: Readable): Promise<Buffer> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of stream) chunks.push(chunk);
+  return Buffer.concat(chunks);
+}
+
+function createTar(files: { name: string; content?: string; type?: string; mode?: string; linkName?: string }[]): Buffer {
+  const blocks: Buffer[] = [];
+  for (const file of files) {
+    const content = Buffer.from(file.content || '');
+    blocks.push(tarHeader(file.name, content.length, file.type || '0', file.mode, file.linkName));
+    blocks.push(content);
+    const padding = (512 - (content.length % 512)) % 512;
+    blocks.push(Buffer.alloc(padding));
+  }
+  blocks.push(Buffer.alloc(1024));
+  return Buffer.concat(blocks);
+}
+
+function paxRecord(key: string, value: string): string {
+  const body = ` ${key}=${value}\n`;
+  let length = body.length + 1;
+  while (`${length}${body}`.length !== length) length++;
+  return `${length}${body}`;
+}
+
+describe('Archive - Format detection', () => {
+  it('should accept zip, tar, tar.gz, tgz and gz files', () => {
+    expect(isSupportedArchive('project.zip')).toBe(true);
+    expect(isSupportedArchive('project.tar')).toBe(true);
+    expect(isSupportedArchive('project.tar.gz')).toBe(true);
+    expect(isSupportedArchive('project.TGZ')).toBe(true);
+    expect(isSupportedArchive('config.json.gz')).toBe(true);
+  });
+
+  it('should reject other files', () => {
+    expect(isSupportedArchive('readme.md')).toBe(false);
+    expect(isSupportedArchive('project.rar')).toBe(false);
+  });
+
+  it('should strip the matching extension', () => {
+    expect(stripArchiveExtension('project.tar.gz')).toBe('project');
+    expect(stripArchiveExtension('project.zip')).toBe('project');
+    expect(stripArchiveExtension('config.json.gz')).toBe('config.json');
+  });
+});
+
+describe('Archive - TAR parsing', () => {
+  it('should list files and directories', async () => {
+    const tar = createTar([
+      { name: 'app/', type: '5' },
+      { name: 'app/index.js', content: 'console.log(1);' },
+      { name: 'app/README.md', content: '# App' },
+    ]);
+
+    const entries = await parseTar(bufferSource(tar));
+    expect(entries.map(e => e.name)).toEqual(['app/', 'app/index.js', 'app/README.md']);
+    expect(entries[0].isDirectory).toBe(true);
+    expect((await entries[1].getData()).toString()).toBe('console.log(1);');
+  });
+
+  it('should use PAX and GNU long names', async () => {
+    const longPath = 'deep/' + 'a'.repeat(120) + '/file.txt';
+    const tar = createTar([
+      { name: 'PaxHeader', type: 'x', content: paxRecord('path', longPath) },
+      { name: 'truncated', content: 'pax' },
+      { name: '././@LongLink', type: 'L', content: 'gnu/' + 'b'.repeat(120) + '.txt' },
+      { name: 'truncated', content: 'gnu' },
+    ]);
+
+    const entries = await parseTar(bufferSource(tar));
+    expect(entries[0].name).toBe(longPath);
+    expect(entries[1].name).toBe('gnu/' + 'b'.repeat(120) + '.txt');
+  });
+
+  it('should keep symbolic links and permission bits', async () => {
+    const tar = createTar([
+      { name: 'link', type: '2', mode: '0000777', linkName: 'file.txt' },
+      { name: 'file.txt', content: 'ok' },
+      { name: 'run.sh', content: '#!/bin/sh', mode: '0000755' },
+      { name: 'hardlink', type: '1', linkName: 'file.txt' },
+    ]);
+
+    const entries = await parseTar(bufferSource(tar));
+    expect(entries.map(e => e.name)).toEqual(['link', 'file.txt', 'run.sh']);
+    expect(isSymlinkMode(entries[0].unixMode)).toBe(true);
+    expect((await entries[0].getData()).toString()).toBe('file.txt');
+    expect(isExecutableMode(entries[1].unixMode)).toBe(false);
+    expect(isExecutableMode(entries[2].unixMode)).toBe(true);
+  });
+
+  it('should reject corrupted headers', async () => {
+    const tar = createTar([{ name: 'file.txt', content: 'ok' }]);
+    tar[0] = 'X'.charCodeAt(0);
+    await expect(parseTar(bufferSource(tar))).rejects.toThrow('header checksum mismatch');
+  });
+});
+
+describe('Archive - ZIP central directory', () => {
+  it('should list entries without inflating them', async () => {
+    const zip = new AdmZip();
+    zip.addFile('docs/', Buffer.alloc(0));
+    zip.addFile('docs/readme.md', Buffer.from('# Docs '.repeat(100)));
+    zip.addFile('empty.txt', Buffer.alloc(0));
+
+    const entries = await parseZip(bufferSource(zip.toBuffer()));
+    expect(entries.map(e => [e.name, e.isDirectory, e.size])).toEqual([
+      ['docs/', true, 0],
+      ['docs/readme.md', false, 700],
+      ['empty.txt', false, 0],
+    ]);
+    expect(entries[1].compressedSize).toBeLessThan(700);
+    expect((await entries[1].getData()).toString()).toBe('# Docs '.repeat(100));
+    expect((await entries[2].getData()).length).toBe(0);
+  });
+
+  it('should read Unix permissions from the external attributes', async () => {
+    const zip = new AdmZip();
+    zip.addFile('run.sh', Buffer.from('#!/bin/sh'), '', 0o755);
+    zip.addFile('plain.txt', Buffer.from('x'), '', 0o644);
+
+    const entries = await parseZip(bufferSource(zip.toBuffer()));
+    const script = entries.find(e => e.name === 'run.sh')!;
+    const plain = entries.find(e => e.name === 'plain.txt')!;
+    expect(isExecutableMode(script.unixMode)).toBe(true);
+    expect(isExecutableMode(plain.unixMode)).toBe(false);
+    expect(isSymlinkMode(script.unixMode)).toBe(false);
+  });
+
+  it('should detect corrupted entry data', async () => {
+    const zip = new AdmZip();
+    zip.addFile('a.txt', Buffer.from('hello world'));
+    const buffer = zip.toBuffer();
+    const [entry] = await parseZip(bufferSource(buffer));
+
+    // Flip a byte inside the stored data, after the 30-byte local header and the name
+    buffer[30 + 'a.txt'.length + 2] ^= 0xff;
+    await expect(entry.getData()).rejects.toThrow('Invalid zip archive');
+    await expect(readStream(entry.createReadStream())).rejects.toThrow('Invalid zip archive');
+  });
+
+  it('should stream entries with the same content as getData', async () => {
+    const zip = new AdmZip();
+    zip.addFile('big.txt', Buffer.from('0123456789'.repeat(10000)));
+    zip.addFile('empty.txt', Buffer.alloc(0));
+
+    for (const entry of await parseZip(bufferSource(zip.toBuffer()))) {
+      expect((await readStream(entry.createReadStream())).equals(await entry.getData())).toBe(true);
+    }
+  });
+
+  it('should reject data that is not a zip', async () => {
+    await expect(parseZip(bufferSource(Buffer.from('not a zip file')))).rejects.toThrow('end of central directory');
+  });
+});
+
+describe('Archive - Readers', () => {
+  it('should read ZIP archives', async () => {
+    const zip = new AdmZip();
+    zip.addFile('src/main.ts', Buffer.from('export {};'));
+
+    const { entries } = await openArchive(bufferSource(zip.toBuffer()), 'project.zip');
+    const file = entries.find(e => e.name === 'src/main.ts')!;
+    expect((await file.getData()).toString()).toBe('export {};');
+  });
+
+  it('should read TAR.GZ archives', async () => {
+    const tgz = zlib.gzipSync(createTar([{ name: 'a.txt', content: 'hello' }]));
+
+    const archive = await openArchive(bufferSource(tgz), 'project.tgz');
+    expect(archive.entries.map(e => e.name)).toEqual(['a.txt']);
+    expect((await archive.entries[0].getData()).toString()).toBe('hello');
+    // Read back from the decompressed temp file
+    expect((await readStream(archive.entries[0].createReadStream())).toString()).toBe('hello');
+    await archive.close();
+  });
+
+  it('should read single-file GZ as one entry', async () => {
+    const gz = zlib.gzipSync(Buffer.from('{"a":1}'));
+
+    const { entries, close } = await openArchive(bufferSource(gz), 'config.json.gz');
+    expect(entries).toHaveLength(1);
+    expect(entries[0].name).toBe('config.json');
+    expect((await entries[0].getData()).toString()).toBe('{"a":1}');
+    await close();
+  });
+
+  it('should reject unsupported formats', async () => {
+    await expect(openArchive(bufferSource(Buffer.from('x')), 'file.rar')).rejects.toThrow('Unsupported archive format');
+  });
+});
+
+describe('Archive - Bomb protection', () => {
+  const entry = (size: number, compressedSize: number): ArchiveEntry => ({
+    name: 'file.bin',
+    isDirectory: false,
+    size,
+    compressedSize,
+    getData: async () => Buffer.alloc(0),
+    createReadStream: () => Readable.from([]),
+  });
+
+  it('should reject suspicious per-file compression ratios', () => {
+    expect(() => validateArchiveLimits([entry(1000000, 100)], 100)).toThrow('suspicious compression ratio');
+  });
+
+  it('should reject highly compressed TAR.GZ streams', async () => {
+    const tgz = zlib.gzipSync(createTar([{ name: 'zeros.bin', content: '\0'.repeat(2 * 1024 * 1024) }]));
+    await expect(openArchive(bufferSource(tgz), 'bomb.tar.gz')).rejects.toThrow('Archive bomb detected');
+  });
+
+  it('should reject archives with too many files', () => {
+    const entries = Array.from({ length: 10001 }, () => entry(1, 1));
+    expect(() => validateArchiveLimits(entries, 10001)).toThrow('too many files');
+  });
+
+  it('should accept normal archives', () => {
+    expect(() => validateArchiveLimits([entry(1000, 500)], 500)).not.toThrow();
+  });
+});
@@ -0,0 +1,643 @@
+import zlib from 'zlib';
+import { promises as fs, createReadStream, createWriteStream } from 'fs';
+import { Readable, Transform } from 'stream';
+import { pipeline } from 'stream/promises';
+import { promisify } from 'util';
+import { createTempFile, removeTempFile } from './tempFiles.js';
+
+const inflateRaw = promisify(zlib.inflateRaw);
+
+export interface ArchiveEntry {
+  name: string;
+  isDirectory: boolean;
+  size: number;
+  // 0 when the format does not compress entries individually (tar)
+  compressedSize: number;
+  // Unix type and permission bits (st_mode) when the archive records them
+  unixMode?: number;
+  // For symlinks getData() returns the link target
+  getData(): Promise<Buffer>;
+  // Same content as getData(), without holding the whole entry in memory
+  createReadStream(): Readable;
+}
+
+// Random access to the archive bytes, so entries can be read on demand
+export interface ArchiveSource {
+  size: number;
+  read(position: number, length: number): Promise<Buffer>;
+  // The whole source unless a range is given
+  createReadStream(position?: number, length?: number): Readable;
+  close(): Promise<void>;
+}
+
+export interface Archive {
+  format: string;
+  entries: ArchiveEntry[];
+  // Releases the source and any temp files created while reading
+  close(): Promise<void>;
+}
+
+export interface ArchiveReader {
+  format: string;
+  extensions: string[];
+  // Set for formats compressed as a whole stream, so the overall ratio is checked instead
+  wholeStreamCompression?: boolean;
+  // The returned close() only cleans up what the reader created; openArchive closes the source
+  read(source: ArchiveSource, fileName: string): Promise<Archive>;
+}
+
+const MAX_UNCOMPRESSED_SIZE = 500 * 1024 * 1024; // 500MB uncompressed limit
+const MAX_COMPRESSION_RATIO = 100; // Max 100:1 compression ratio
+const MAX_FILES = 10000; // Max 10k files to prevent resource exhaustion
+
+const TAR_BLOCK_SIZE = 512;
+
+const S_IFMT = 0o170000;
+const S_IFREG = 0o100000;
+const S_IFLNK = 0o120000;
+const ZIP_HOST_UNIX = 3; // "version made by" high byte for archives created on Unix
+
+const ZIP_EOCD_SIGNATURE = 0x06054b50;
+const ZIP64_EOCD_LOCATOR_SIGNATURE = 0x07064b50;
+const ZIP64_EOCD_SIGNATURE = 0x06064b50;
+const ZIP_CENTRAL_HEADER_SIGNATURE = 0x02014b50;
+const ZIP_LOCAL_HEADER_SIGNATURE = 0x04034b50;
+const ZIP_MAX_COMMENT_SIZE = 0xffff;
+const MAX_CENTRAL_DIRECTORY_SIZE = 64 * 1024 * 1024; // Far above what MAX_FILES entries need
+
+export function bufferSource(buffer: Buffer): ArchiveSource {
+  return {
+    size: buffer.length,
+    read: async (position, length) => buffer.subarray(position, position + length),
+    createReadStream: (position = 0, length = buffer.length - position) =>
+      Readable.from([buffer.subarray(position, position + length)]),
+    close: async () => {},
+  };
+}
+
+export async function fileSource(filePath: string): Promise<ArchiveSource> {
+  const handle = await fs.open(filePath, 'r');
+  const { size } = await handle.stat();
+
+  return {
+    size,
+    async read(position, length) {
+      const buffer = Buffer.alloc(Math.max(0, Math.min(length, size - position)));
+      const { bytesRead } = await handle.read(buffer, 0, buffer.length, position);
+      return buffer.subarray(0, bytesRead);
+    },
+    createReadStream: (position = 0, length = size - position) =>
+      length > 0 ? createReadStream(filePath, { start: position, end: position + length - 1 }) : Readable.from([]),
+    close: () => handle.close(),
+  };
+}
+
+function archiveBombError(): Error {
+  const maxMB = (MAX_UNCOMPRESSED_SIZE / 1024 / 1024).toFixed(0);
+  return new Error(`Archive bomb detected: uncompressed size exceeds limit (${maxMB}MB)`);
+}
+
+// Decompresses a gzip stream to a temp file, stopping as soon as the limit is passed
+async function gunzipToTempFile(source: ArchiveSource): Promise<string> {
+  const tempPath = await createTempFile('gunzip');
+  let total = 0;
+
+  const limiter = new Transform({
+    transform(chunk: Buffer, _encoding, callback) {
+      total += chunk.length;
+      callback(total > MAX_UNCOMPRESSED_SIZE ? archiveBombError() : null, chunk);
+    },
+  });
+
+  try {
+    await pipeline(source.createReadStream(), zlib.createGunzip(), limiter, createWriteStream(tempPath, { mode: 0o600 }));
+    return tempPath;
+  } catch (error: any) {
+    await removeTempFile(tempPath);
+    if (error.message?.startsWith('Archive bomb detected')) throw error;
+    throw new Error(`Invalid gzip data: ${error.message}`);
+  }
+}
+
+function readTarString(block: Buffer, offset: number, length: number): string {
+  const field = block.subarray(offset, offset + length);
+  const end = field.indexOf(0);
+  return field.subarray(0, end === -1 ? field.length : end).toString('utf-8');
+}
+
+function readTarNumber(block: Buffer, offset: number, length: number): number {
+  const field = block.subarray(offset, offset + length);
+
+  // GNU base-256 encoding for large values
+  if (field[0] & 0x80) {
+    let value = 0;
+    for (let i = 1; i < field.length; i++) {
+      value = value * 256 + field[i];
+    }
+    return value;
+  }
+
+  const text = readTarString(block, offset, length).trim();
+  return text ? parseInt(text, 8) : 0;
+}
+
+function isValidTarChecksum(block: Buffer): boolean {
+  const expected = readTarNumber(block, 148, 8);
+  let sum = 0;
+  for (let i = 0; i < TAR_BLOCK_SIZE; i++) {
+    // The checksum field itself counts as spaces
+    sum += i >= 148 && i < 156 ? 0x20 : block[i];
+  }
+  return sum === expected;
+}
+
+function parsePaxHeaders(data: Buffer): Record<string, string> {
+  const headers: Record<string, string> = {};
+  let offset = 0;
+
+  // Records look like "<length> <key>=<value>\n"
+  while (offset < data.length) {
+    const space = data.indexOf(0x20, offset);
+    if (space === -1) break;
+
+    const length = parseInt(data.subarray(offset, space).toString('utf-8'), 10);
+    if (!length || length <= 0) break;
+
+    const record = data.subarray(space + 1, offset + length - 1).toString('utf-8');
+    const separator = record.indexOf('=');
+    if (separator > 0) {
+      headers[record.substring(0, separator)] = record.substring(separator + 1);
+    }
+    offset += length;
+  }
+
+  return headers;
+}
+
+// Reads only the headers; file contents stay in the source until getData is called
+export async function parseTar(source: ArchiveSource): Promise<ArchiveEntry[]> {
+  const entries: ArchiveEntry[] = [];
+  let offset = 0;
+  let longName: string | null = null;
+  let longLinkName: string | null = null;
+  let paxHeaders: Record<string, string> = {};
+
+  while (offset + TAR_BLOCK_SIZE <= source.size) {
+    const header = await source.read(offset, TAR_BLOCK_SIZE);
+
+    // Two zero blocks mark the end of the archive
+    if (header.every(byte => byte === 0)) break;
+
+    if (!isValidTarChecksum(header)) {
+      throw new Error('Invalid tar archive: header checksum mismatch');
+    }
+
+    const typeFlag = String.fromCharCode(header[156] || 0x30);
+    const size = readTarNumber(header, 124, 12);
+    const dataStart = offset + TAR_BLOCK_SIZE;
+
+    if (dataStart + size > source.size) {
+      throw new Error('Invalid tar archive: unexpected end of data');
+    }
+
+    offset = dataStart + Math.ceil(size / TAR_BLOCK_SIZE) * TAR_BLOCK_SIZE;
+
+    if (typeFlag === 'L') {
+      const data = await source.read(dataStart, size);
+      longName = readTarString(data, 0, data.length);
+      continue;
+    }
+
+    if (typeFlag === 'K') {
+      const data = await source.read(dataStart, size);
+      longLinkName = readTarString(data, 0, data.length);
+      continue;
+    }
+
+    if (typeFlag === 'x') {
+      paxHeaders = parsePaxHeaders(await source.read(dataStart, size));
+      continue;
+    }
+
+    if (typeFlag === 'g') {
+      continue;
+    }
+
+    const prefix = readTarString(header, 345, 155);
+    const baseName = readTarString(header, 0, 100);
+    const name = paxHeaders.path || longName || (prefix ? `${prefix}/${baseName}` : baseName);
+    const linkName = paxHeaders.linkpath || longLinkName || readTarString(header, 157, 100);
+
+    longName = null;
+    longLinkName = null;
+    paxHeaders = {};
+
+    // Tar stores only the permission bits; the type comes from the flag
+    const permissions = readTarNumber(header, 100, 8) & 0o7777;
+
+    // Regular files, directories and symlinks; hard links and devices are never uploaded
+    if (typeFlag === '5') {
+      entries.push({
+        name: name.endsWith('/') ? name : name + '/',
+        isDirectory: true,
+        size: 0,
+        compressedSize: 0,
+        getData: async () => Buffer.alloc(0),
+        createReadStream: () => Readable.from([]),
+      });
+    } else if (typeFlag === '0' || typeFlag === '7') {
+      entries.push({
+        name,
+        isDirectory: false,
+        size,
+        compressedSize: 0,
+        unixMode: S_IFREG | permissions,
+        getData: () => source.read(dataStart, size),
+        createReadStream: () => source.createReadStream(dataStart, size),
+      });
+    } else if (typeFlag === '2') {
+      const target = Buffer.from(linkName);
+      entries.push({
+        name,
+        isDirectory: false,
+        size: target.length,
+        compressedSize: 0,
+        unixMode: S_IFLNK | permissions,
+        getData: async () => target,
+        createReadStream: () => Readable.from([target]),
+      });
+    }
+  }
+
+  return entries;
+}
+
+function readUInt64(buffer: Buffer, offset: number): number {
+  return Number(buffer.readBigUInt64LE(offset));
+}
+
+async function findZipCentralDirectory(source: ArchiveSource): Promise<{ offset: number; size: number; count: number }> {
+  const tailLength = Math.min(source.size, 22 + ZIP_MAX_COMMENT_SIZE);
+  const tailStart = source.size - tailLength;
+  const tail = await source.read(tailStart, tailLength);
+
+  let eocd = -1;
+  for (let i = tail.length - 22; i >= 0; i--) {
+    if (tail.readUInt32LE(i) === ZIP_EOCD_SIGNATURE) {
+      eocd = i;
+      break;
+    }
+  }
+
+  if (eocd === -1) {
+    throw new Error('Invalid zip archive: end of central directory not found');
+  }
+
+  let count = tail.readUInt16LE(eocd + 10);
+  let size = tail.readUInt32LE(eocd + 12);
+  let offset = tail.readUInt32LE(eocd + 16);
+
+  // ZIP64 archives keep the real values in a separate record
+  const locatorPosition = tailStart + eocd - 20;
+  if ((count === 0xffff || size === 0xffffffff || offset === 0xffffffff) && locatorPosition >= 0) {
+    const locator = await source.read(locatorPosition, 20);
+    if (locator.readUInt32LE(0) === ZIP64_EOCD_LOCATOR_SIGNATURE) {
+      const record = await source.read(readUInt64(locator, 8), 56);
+      if (record.readUInt32LE(0) !== ZIP64_EOCD_SIGNATURE) {
+        throw new Error('Invalid zip archive: bad ZIP64 record');
+      }
+      count = readUInt64(record, 32);
+      size = readUInt64(record, 40);
+      offset = readUInt64(record, 48);
+    }
+  }
+
+  if (size > MAX_CENTRAL_DIRECTORY_SIZE || offset + size > source.size) {
+    throw new Error('Invalid zip archive: bad central directory');
+  }
+
+  return { offset, size, count };
+}
+
+async function findZipEntryData(source: ArchiveSource, localHeaderOffset: number, name: string): Promise<number> {
+  const localHeader = await source.read(localHeaderOffset, 30);
+  if (localHeader.length < 30 || localHeader.readUInt32LE(0) !== ZIP_LOCAL_HEADER_SIGNATURE) {
+    throw new Error(`Invalid zip archive: bad local header for ${name}`);
+  }
+  return localHeaderOffset + 30 + localHeader.readUInt16LE(26) + localHeader.readUInt16LE(28);
+}
+
+async function readZipEntryData(
+  source: ArchiveSource,
+  localHeaderOffset: number,
+  method: number,
+  compressedSize: number,
+  size: number,
+  crc: number,
+  name: string
+): Promise<Buffer> {
+  const dataStart = await findZipEntryData(source, localHeaderOffset, name);
+  const compressed = await source.read(dataStart, compressedSize);
+
+  let data: Buffer;
+  if (method === 0) {
+    data = compressed;
+  } else if (method === 8) {
+    try {
+      data = await inflateRaw(compressed, { maxOutputLength: Math.max(size, 1) });
+    } catch (error: any) {
+      throw new Error(`Invalid zip archive: cannot inflate ${name} (${error.message})`);
+    }
+  } else {
+    throw new Error(`Unsupported zip compression method ${method} for ${name}`);
+  }
+
+  if (data.length !== size || zlib.crc32(data) !== crc) {
+    throw new Error(`Invalid zip archive: checksum mismatch for ${name}`);
+  }
+
+  return data;
+}
+
+// Inflates chunk by chunk, checking size and CRC as readZipEntryData does
+async function* streamZipEntryData(
+  source: ArchiveSource,
+  localHeaderOffset: number,
+  method: number,
+  compressedSize: number,
+  size: number,
+  crc: number,
+  name: string
+): AsyncGenerator<Buffer> {
+  if (method !== 0 && method !== 8) {
+    throw new Error(`Unsupported zip compression method ${method} for ${name}`);
+  }
+
+  const dataStart = await findZipEntryData(source, localHeaderOffset, name);
+  const raw = source.createReadStream(dataStart, compressedSize);
+  const data = method === 0 ? raw : raw.pipe(zlib.createInflateRaw());
+  if (data !== raw) {
+    raw.once('error', error => data.destroy(error));
+  }
+
+  let length = 0;
+  let checksum = 0;
+  try {
+    for await (const chunk of data) {
+      length += chunk.length;
+      if (length > size) break;
+      checksum = zlib.crc32(chunk, checksum);
+      yield chunk;
+    }
+  } catch (error: any) {
+    throw new Error(`Invalid zip archive: cannot inflate ${name} (${error.message})`);
+  } finally {
+    raw.destroy();
+    data.destroy();
+  }
+
+  if (length !== size || checksum !== crc) {
+    throw new Error(`Invalid zip archive: checksum mismatch for ${name}`);
+  }
+}
+
+// Reads the central directory only; entries are inflated on demand
+export async function parseZip(source: ArchiveSource): Promise<ArchiveEntry[]> {
+  const directory = await findZipCentralDirectory(source);
+  const data = await source.read(directory.offset, directory.size);
+  const entries: ArchiveEntry[] = [];
+  let offset = 0;
+
+  for (let i = 0; i < directory.count; i++) {
+    if (offset + 46 > data.length || data.readUInt32LE(offset) !== ZIP_CENTRAL_HEADER_SIGNATURE) {
+      throw new Error('Invalid zip archive: bad central directory entry');
+    }
+
+    const madeBy = data.readUInt16LE(offset + 4) >> 8;
+    const flags = data.readUInt16LE(offset + 8);
+    const method = data.readUInt16LE(offset + 10);
+    const crc = data.readUInt32LE(offset + 16);
+    let compressedSize = data.readUInt32LE(offset + 20);
+    let size = data.readUInt32LE(offset + 24);
+    const nameLength = data.readUInt16LE(offset + 28);
+    const extraLength = data.readUInt16LE(offset + 30);
+    const commentLength = data.readUInt16LE(offset + 32);
+    const externalAttributes = data.readUInt32LE(offset + 38);
+    let localHeaderOffset = data.readUInt32LE(offset + 42);
+
+    const name = data.subarray(offset + 46, offset + 46 + nameLength).toString('utf-8');
+    const extra = data.subarray(offset + 46 + nameLength, offset + 46 + nameLength + extraLength);
+
+    // ZIP64 extended information replaces the fields saturated at 0xFFFFFFFF, in this order
+    for (let e = 0; e + 4 <= extra.length; ) {
+      const id = extra.readUInt16LE(e);
+      const length = extra.readUInt16LE(e + 2);
+      if (id === 0x0001) {
+        let field = e + 4;
+        if (size === 0xffffffff) { size = readUInt64(extra, field); field += 8; }
+        if (compressedSize === 0xffffffff) { compressedSize = readUInt64(extra, field); field += 8; }
+        if (localHeaderOffset === 0xffffffff) { localHeaderOffset = readUInt64(extra, field); }
+      }
+      e += 4 + length;
+    }
+
+    offset += 46 + nameLength + extraLength + commentLength;
+
+    if (flags & 0x1) {
+      throw new Error(`Encrypted zip entries are not supported: ${name}`);
+    }
+
+    const isDirectory = name.endsWith('/');
+    // Unix zip tools keep st_mode in the high 16 bits; other hosts only store DOS attributes
+    const unixMode = madeBy === ZIP_HOST_UNIX ? externalAttributes >>> 16 : 0;
+    entries.push({
+      name,
+      isDirectory,
+      size,
+      compressedSize,
+      ...(unixMode !== 0 && { unixMode }),
+      getData: isDirectory
+        ? async () => Buffer.alloc(0)
+        : () => readZipEntryData(source, localHeaderOffset, method, compressedSize, size, crc, name),
+      createReadStream: () => isDirectory
+        ? Readable.from([])
+        : Readable.from(streamZipEntryData(source, localHeaderOffset, method, compressedSize, size, crc, name)),
+    });
+  }
+
+  return entries;
+}
+
+const zipReader: ArchiveReader = {
+  format: 'ZIP',
+  extensions: ['.zip'],
+  async read(source) {
+    return { format: 'ZIP', entries: await parseZip(source), close: async () => {} };
+  },
+};
+
+const tarReader: ArchiveReader = {
+  format: 'TAR',
+  extensions: ['.tar'],
+  async read(source) {
+    return { format: 'TAR', entries: await parseTar(source), close: async () => {} };
+  },
+};
+
+const tarGzReader: ArchiveReader = {
+  format: 'TAR.GZ',
+  extensions: ['.tar.gz', '.tgz'],
+  wholeStreamCompression: true,
+  async read(source) {
+    const tarPath = await gunzipToTempFile(source);
+    const tar = await fileSource(tarPath);
+
+    const close = async () => {
+      await tar.close();
+      await removeTempFile(tarPath);
+    };
+
+    try {
+      return { format: 'TAR.GZ', entries: await parseTar(tar), close };
+    } catch (error) {
+      await close();
+      throw error;
+    }
+  },
+};
+
+const gzipReader: ArchiveReader = {
+  format: 'GZ',
+  extensions: ['.gz'],
+  async read(source, fileName) {
+    const dataPath = await gunzipToTempFile(source);
+    const { size } = await fs.stat(dataPath);
+
+    return {
+      format: 'GZ',
+      entries: [{
+        name: stripArchiveExtension(fileName) || 'arquivo',
+        isDirectory: false,
+        size,
+        compressedSize: source.size,
+        getData: () => fs.readFile(dataPath),
+        createReadStream: () => createReadStream(dataPath),
+      }],
+      close: () => removeTempFile(dataPath),
+    };
+  },
+};
+
+// Order matters: longer extensions (.tar.gz) must be tried before shorter ones (.gz)
+const archiveReaders: ArchiveReader[] = [zipReader, tarGzReader, tarReader, gzipReader];
+
+export function isSymlinkMode(unixMode: number | undefined): boolean {
+  return unixMode !== undefined && (unixMode & S_IFMT) === S_IFLNK;
+}
+
+export function isExecutableMode(unixMode: number | undefined): boolean {
+  if (unixMode === undefined) return false;
+  // Some tools store only the permission bits, without the file type
+  const type = unixMode & S_IFMT;
+  return (type === S_IFREG || type === 0) && (unixMode & 0o111) !== 0;
+}
+
+export function registerArchiveReader(reader: ArchiveReader): void {
+  archiveReaders.unshift(reader);
+}
+
+export function findArchiveReader(fileName: string): ArchiveReader | null {
+  const lower = fileName.toLowerCase();
+  return archiveReaders.find(reader => reader.extensions.some(ext => lower.endsWith(ext))) || null;
+}
+
+export function isSupportedArchive(fileName: string): boolean {
+  return findArchiveReader(fileName) !== null;
+}
+
+export function getSupportedExtensions(): string[] {
+  return archiveReaders.flatMap(reader => reader.extensions);
+}
+
+export function stripArchiveExtension(fileName: string): string {
+  const reader = findArchiveReader(fileName);
+  if (!reader) return fileName;
+
+  const lower = fileName.toLowerCase();
+  const extension = reader.extensions.find(ext => lower.endsWith(ext))!;
+  return fileName.substring(0, fileName.length - extension.length);
+}
+
+export function validateArchiveLimits(
+  entries: ArchiveEntry[],
+  archiveSize: number,
+  wholeStreamCompression: boolean = false
+): void {
+  // Archive bomb protection: check total uncompressed size and file count
+  let totalUncompressedSize = 0;
+  let fileCount = 0;
+
+  for (const entry of entries) {
+    if (entry.isDirectory) continue;
+
+    fileCount++;
+    totalUncompressedSize += entry.size;
+
+    // Check compression ratio for individual files
+    if (entry.compressedSize > 0) {
+      const ratio = entry.size / entry.compressedSize;
+      if (ratio > MAX_COMPRESSION_RATIO) {
+        throw new Error(
+          `Archive bomb detected: file "${entry.name}" has suspicious compression ratio (${ratio.toFixed(1)}:1)`
+        );
+      }
+    }
+  }
+
+  if (fileCount > MAX_FILES) {
+    throw new Error(`Archive contains too many files (${fileCount}). Maximum allowed: ${MAX_FILES}`);
+  }
+
+  if (totalUncompressedSize > MAX_UNCOMPRESSED_SIZE) {
+    const sizeMB = (totalUncompressedSize / 1024 / 1024).toFixed(2);
+    const maxMB = (MAX_UNCOMPRESSED_SIZE / 1024 / 1024).toFixed(0);
+    throw new Error(`Archive bomb detected: total uncompressed size (${sizeMB}MB) exceeds limit (${maxMB}MB)`);
+  }
+
+  if (wholeStreamCompression && archiveSize > 0) {
+    const ratio = totalUncompressedSize / archiveSize;
+    if (ratio > MAX_COMPRESSION_RATIO) {
+      throw new Error(`Archive bomb detected: suspicious compression ratio (${ratio.toFixed(1)}:1)`);
+    }
+  }
+}
+
+// Takes ownership of the source: it is closed with the archive, or right away on failure
+export async function openArchive(source: ArchiveSource, fileName: string): Promise<Archive> {
+  const reader = findArchiveReader(fileName);
+  if (!reader) {
+    await source.close();
+    throw new Error(`Unsupported archive format: ${fileName}`);
+  }
+
+  let archive: Archive;
+  try {
+    archive = await reader.read(source, fileName);
+  } catch (error) {
+    await source.close();
+    throw error;
+  }
+
+  const close = async () => {
+    await archive.close();
+    await source.close();
+  };
+
+  try {
+    validateArchiveLimits(archive.entries, source.size, reader.wholeStreamCompression);
+  } catch (error) {
+    await close();
+    throw error;
+  }
+  return { ...archive, close };
+}
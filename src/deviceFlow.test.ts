@@ -0,0 +1,85 @@
+import { describe, it, expect, jest, afterEach } from '@jest/globals';
+import { requestDeviceCode, waitForDeviceToken, DeviceCode } from './deviceFlow.js';
+
+const jsonResponse = (body: unknown, status: number = 200) =>
+  new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } });
+
+const mockFetch = (...bodies: unknown[]) => {
+  const spy = jest.spyOn(globalThis, 'fetch');
+  for (const body of bodies) {
+    spy.mockResolvedValueOnce(jsonResponse(body));
+  }
+  return spy;
+};
+
+const code: DeviceCode = {
+  deviceCode: 'device-123',
+  userCode: 'ABCD-1234',
+  verificationUri: 'https://github.com/login/device',
+  expiresIn: 900,
+  interval: 5,
+};
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe('Device Flow - Device code', () => {
+  it('should request a code for the repo scope', async () => {
+    const spy = mockFetch({
+      device_code: 'device-123',
+      user_code: 'ABCD-1234',
+      verification_uri: 'https://github.com/login/device',
+      expires_in: 900,
+      interval: 5,
+    });
+
+    await expect(requestDeviceCode('client-id')).resolves.toEqual(code);
+
+    const [url, init] = spy.mock.calls[0];
+    expect(url).toBe('https://github.com/login/device/code');
+    expect(init?.body).toBe('client_id=client-id&scope=repo');
+  });
+
+  it('should fail when device flow is disabled for the app', async () => {
+    mockFetch({ error: 'device_flow_disabled', error_description: 'Device Flow must be explicitly enabled' });
+    await expect(requestDeviceCode('client-id')).rejects.toThrow('Device Flow must be explicitly enabled');
+  });
+});
+
+describe('Device Flow - Polling', () => {
+  it('should keep polling until the user authorizes', async () => {
+    const waits: number[] = [];
+    mockFetch(
+      { error: 'authorization_pending' },
+      { error: 'slow_down', interval: 10 },
+      { access_token: 'gho_token' },
+    );
+
+    const result = await waitForDeviceToken('client-id', code, 60000, async ms => { waits.push(ms); });
+
+    expect(result).toEqual({ status: 'authorized', token: 'gho_token' });
+    expect(waits).toEqual([5000, 5000, 10000]);
+  });
+
+  it('should report denied and expired codes', async () => {
+    const noWait = async () => {};
+
+    mockFetch({ error: 'access_denied' });
+    await expect(waitForDeviceToken('client-id', code, 60000, noWait)).resolves.toEqual({ status: 'denied' });
+
+    mockFetch({ error: 'expired_token' });
+    await expect(waitForDeviceToken('client-id', code, 60000, noWait)).resolves.toEqual({ status: 'expired' });
+  });
+
+  it('should give up once the wait limit is reached', async () => {
+    mockFetch({ error: 'authorization_pending' }, { error: 'authorization_pending' });
+    const result = await waitForDeviceToken('client-id', code, 10000, async () => {});
+    expect(result).toEqual({ status: 'expired' });
+  });
+
+  it('should fail on unexpected errors', async () => {
+    mockFetch({ error: 'incorrect_client_credentials', error_description: 'The client_id is not valid' });
+    await expect(waitForDeviceToken('client-id', code, 60000, async () => {})).rejects.toThrow('The client_id is not valid');
+  });
+});
@@ -0,0 +1,112 @@
+export interface DeviceCode {
+  deviceCode: string;
+  // Short code the user types on the verification page
+  userCode: string;
+  verificationUri: string;
+  // Seconds until the codes expire
+  expiresIn: number;
+  // Minimum seconds between token requests
+  interval: number;
+}
+
+export type DeviceFlowResult =
+  | { status: 'authorized'; token: string }
+  | { status: 'expired' }
+  | { status: 'denied' };
+
+interface DeviceTokenResponse {
+  access_token?: string;
+  error?: string;
+  error_description?: string;
+  interval?: number;
+}
+
+const DEVICE_CODE_URL = 'https://github.com/login/device/code';
+const ACCESS_TOKEN_URL = 'https://github.com/login/oauth/access_token';
+const DEVICE_GRANT_TYPE = 'urn:ietf:params:oauth:grant-type:device_code';
+const SLOW_DOWN_INCREMENT = 5; // Seconds added to the interval on slow_down, per RFC 8628
+
+async function postForm<T>(url: string, params: Record<string, string>): Promise<T> {
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: {
+      Accept: 'application/json',
+      'Content-Type': 'application/x-www-form-urlencoded',
+    },
+    body: new URLSearchParams(params).toString(),
+  });
+
+  if (!response.ok) {
+    throw new Error(`GitHub OAuth request failed: HTTP ${response.status}`);
+  }
+  return await response.json() as T;
+}
+
+export async function requestDeviceCode(clientId: string, scope: string = 'repo'): Promise<DeviceCode> {
+  const data = await postForm<{
+    device_code?: string;
+    user_code: string;
+    verification_uri: string;
+    expires_in: number;
+    interval: number;
+    error?: string;
+    error_description?: string;
+  }>(DEVICE_CODE_URL, { client_id: clientId, scope });
+
+  // GitHub answers 200 with an error body when device flow is disabled for the app
+  if (data.error || !data.device_code) {
+    throw new Error(`GitHub device flow unavailable: ${data.error_description || data.error || 'no device code returned'}`);
+  }
+
+  return {
+    deviceCode: data.device_code,
+    userCode: data.user_code,
+    verificationUri: data.verification_uri,
+    expiresIn: data.expires_in,
+    interval: data.interval,
+  };
+}
+
+const sleep = (ms: number) => new Promise<void>(resolve => setTimeout(resolve, ms));
+
+// Polls until the user approves or denies the request, or the code expires
+export async function waitForDeviceToken(
+  clientId: string,
+  code: DeviceCode,
+  maxWait: number = code.expiresIn * 1000,
+  wait: (ms: number) => Promise<void> = sleep
+): Promise<DeviceFlowResult> {
+  let interval = code.interval;
+  let waited = 0;
+
+  while (waited < maxWait) {
+    await wait(interval * 1000);
+    waited += interval * 1000;
+
+    const data = await postForm<DeviceTokenResponse>(ACCESS_TOKEN_URL, {
+      client_id: clientId,
+      device_code: code.deviceCode,
+      grant_type: DEVICE_GRANT_TYPE,
+    });
+
+    if (data.access_token) {
+      return { status: 'authorized', token: data.access_token };
+    }
+
+    switch (data.error) {
+      case 'authorization_pending':
+        break;
+      case 'slow_down':
+        interval = data.interval || interval + SLOW_DOWN_INCREMENT;
+        break;
+      case 'expired_token':
+        return { status: 'expired' };
+      case 'access_denied':
+        return { status: 'denied' };
+      default:
+        throw new Error(`GitHub device flow failed: ${data.error_description || data.error || 'unexpected response'}`);
+    }
+  }
+
+  return { status: 'expired' };
+}
@@ -0,0 +1,126 @@
+import https from 'https';
+import http from 'http';
+import { createWriteStream } from 'fs';
+import { createTempFile, removeTempFile } from './tempFiles.js';
+
+export interface DownloadLimits {
+  maxSize: number;
+  timeout: number;
+}
+
+export interface DownloadedFile {
+  path: string;
+  size: number;
+}
+
+export const DEFAULT_DOWNLOAD_LIMITS: DownloadLimits = {
+  maxSize: 50 * 1024 * 1024, // 50MB limit
+  timeout: 60000, // 60 seconds timeout
+};
+
+// Streams the response body to onChunk; onChunk returning false pauses until resume is called
+function streamDownload(
+  url: string,
+  limits: DownloadLimits,
+  onChunk: (chunk: Buffer, resume: () => void) => boolean
+): Promise<number> {
+  return new Promise((resolve, reject) => {
+    const protocol = url.startsWith('https') ? https : http;
+    let settled = false;
+
+    const fail = (error: Error) => {
+      if (settled) return;
+      settled = true;
+      clearTimeout(timeoutId);
+      request.destroy();
+      reject(error);
+    };
+
+    const timeoutId = setTimeout(() => {
+      fail(new Error('Download timeout: file took too long to download'));
+    }, limits.timeout);
+
+    const request = protocol
+      .get(url, (response) => {
+        if (response.statusCode !== 200) {
+          response.destroy();
+          fail(new Error(`Failed to download file: ${response.statusCode}`));
+          return;
+        }
+
+        let totalSize = 0;
+
+        response.on('data', (chunk: Buffer) => {
+          totalSize += chunk.length;
+
+          if (totalSize > limits.maxSize) {
+            response.destroy();
+            fail(new Error(`File too large: exceeds ${limits.maxSize / 1024 / 1024}MB limit`));
+            return;
+          }
+
+          if (!onChunk(chunk, () => response.resume())) {
+            response.pause();
+          }
+        });
+
+        response.on('end', () => {
+          if (settled) return;
+          settled = true;
+          clearTimeout(timeoutId);
+          resolve(totalSize);
+        });
+
+        response.on('error', fail);
+      })
+      .on('error', fail);
+
+    request.setTimeout(limits.timeout, () => {
+      fail(new Error('Request timeout: connection timed out'));
+    });
+  });
+}
+
+export async function downloadFile(
+  url: string,
+  limits: DownloadLimits = DEFAULT_DOWNLOAD_LIMITS
+): Promise<Buffer> {
+  const chunks: Buffer[] = [];
+  await streamDownload(url, limits, (chunk) => {
+    chunks.push(chunk);
+    return true;
+  });
+  return Buffer.concat(chunks);
+}
+
+// Same limits as downloadFile, but the content goes to disk instead of memory
+export async function downloadToTempFile(
+  url: string,
+  limits: DownloadLimits = DEFAULT_DOWNLOAD_LIMITS
+): Promise<DownloadedFile> {
+  const tempPath = await createTempFile('download');
+  const output = createWriteStream(tempPath, { mode: 0o600 });
+
+  try {
+    const writeFailed = new Promise<never>((_, reject) => output.on('error', reject));
+
+    const size = await Promise.race([
+      streamDownload(url, limits, (chunk, resume) => {
+        const canContinue = output.write(chunk);
+        if (!canContinue) output.once('drain', resume);
+        return canContinue;
+      }),
+      writeFailed,
+    ]);
+
+    await new Promise<void>((resolve, reject) => {
+      output.end((error?: Error | null) => (error ? reject(error) : resolve()));
+    });
+
+    return { path: tempPath, size };
+  } catch (error) {
+    output.destroy();
+    await removeTempFile(tempPath);
+    throw error;
+  }
+}
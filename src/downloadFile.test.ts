@@ -1,66 +1,9 @@
 import { describe, it, expect, beforeAll, afterAll } from '@jest/globals';
 import http from 'http';
+import { promises as fs } from 'fs';
 import { AddressInfo } from 'net';
-
-// Mock download function for testing (matches the fixed implementation)
-async function downloadFile(url: string): Promise<Buffer> {
-  const MAX_FILE_SIZE = 50 * 1024 * 1024; // 50MB limit
-  const DOWNLOAD_TIMEOUT = 60000; // 60 seconds timeout
-  
-  return new Promise((resolve, reject) => {
-    const protocol = url.startsWith('https') ? require('https') : http;
-    
-    const timeoutId = setTimeout(() => {
-      request.destroy();
-      reject(new Error('Download timeout: file took too long to download'));
-    }, DOWNLOAD_TIMEOUT);
-    
-    const request = protocol
-      .get(url, (response: any) => {
-        if (response.statusCode !== 200) {
-          clearTimeout(timeoutId);
-          response.destroy();
-          reject(new Error(`Failed to download file: ${response.statusCode}`));
-          return;
-        }
-
-        const chunks: Buffer[] = [];
-        let totalSize = 0;
-        
-        response.on('data', (chunk: Buffer) => {
-          totalSize += chunk.length;
-          
-          if (totalSize > MAX_FILE_SIZE) {
-            clearTimeout(timeoutId);
-            response.destroy();
-            reject(new Error(`File too large: exceeds ${MAX_FILE_SIZE / 1024 / 1024}MB limit`));
-            return;
-          }
-          
-          chunks.push(chunk);
-        });
-        
-        response.on('end', () => {
-          clearTimeout(timeoutId);
-          resolve(Buffer.concat(chunks));
-        });
-        
-        response.on('error', (error: Error) => {
-          clearTimeout(timeoutId);
-          reject(error);
-        });
-      })
-      .on('error', (error: Error) => {
-        clearTimeout(timeoutId);
-        reject(error);
-      });
-    
-    request.setTimeout(DOWNLOAD_TIMEOUT, () => {
-      request.destroy();
-      reject(new Error('Request timeout: connection timed out'));
-    });
-  });
-}
+import { downloadFile, downloadToTempFile, DEFAULT_DOWNLOAD_LIMITS } from './download.js';
+import { getActiveTempFileCount, removeTempFile } from './tempFiles.js';
 
 describe('downloadFile', () => {
   let server: http.Server;
@@ -112,62 +55,7 @@ describe('downloadFile', () => {
 
   it('should timeout on slow downloads', async () => {
     // Use a shorter timeout for testing
-    const downloadWithShortTimeout = async (url: string): Promise<Buffer> => {
-      const MAX_FILE_SIZE = 50 * 1024 * 1024;
-      const DOWNLOAD_TIMEOUT = 1000; // 1 second for testing
-      
-      return new Promise((resolve, reject) => {
-        const timeoutId = setTimeout(() => {
-          request.destroy();
-          reject(new Error('Download timeout: file took too long to download'));
-        }, DOWNLOAD_TIMEOUT);
-        
-        const request = http.get(url, (response) => {
-          if (response.statusCode !== 200) {
-            clearTimeout(timeoutId);
-            response.destroy();
-            reject(new Error(`Failed to download file: ${response.statusCode}`));
-            return;
-          }
-
-          const chunks: Buffer[] = [];
-          let totalSize = 0;
-          
-          response.on('data', (chunk: Buffer) => {
-            totalSize += chunk.length;
-            
-            if (totalSize > MAX_FILE_SIZE) {
-              clearTimeout(timeoutId);
-              response.destroy();
-              reject(new Error(`File too large: exceeds ${MAX_FILE_SIZE / 1024 / 1024}MB limit`));
-              return;
-            }
-            
-            chunks.push(chunk);
-          });
-          
-          response.on('end', () => {
-            clearTimeout(timeoutId);
-            resolve(Buffer.concat(chunks));
-          });
-          
-          response.on('error', (error) => {
-            clearTimeout(timeoutId);
-            reject(error);
-          });
-        }).on('error', (error) => {
-          clearTimeout(timeoutId);
-          reject(error);
-        });
-        
-        request.setTimeout(DOWNLOAD_TIMEOUT, () => {
-          request.destroy();
-          reject(new Error('Request timeout: connection timed out'));
-        });
-      });
-    };
-
-    await expect(downloadWithShortTimeout(`${serverUrl}/slow-file`))
+    await expect(downloadFile(`${serverUrl}/slow-file`, { ...DEFAULT_DOWNLOAD_LIMITS, timeout: 1000 }))
       .rejects
       .toThrow('Download timeout: file took too long to download');
   }, 5000);
@@ -177,4 +65,19 @@ describe('downloadFile', () => {
       .rejects
       .toThrow('Failed to download file: 404');
   });
+
+  it('should stream downloads to a temp file', async () => {
+    const download = await downloadToTempFile(`${serverUrl}/small-file`);
+    expect(download.size).toBe(12);
+    expect(await fs.readFile(download.path, 'utf-8')).toBe('test content');
+    await removeTempFile(download.path);
+  });
+
+  it('should remove the temp file when the download fails', async () => {
+    const before = getActiveTempFileCount();
+    await expect(downloadToTempFile(`${serverUrl}/large-file`))
+      .rejects
+      .toThrow('File too large: exceeds 50MB limit');
+    expect(getActiveTempFileCount()).toBe(before);
+  }, 10000);
 });
@@ -0,0 +1,114 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach, jest } from '@jest/globals';
+import crypto from 'crypto';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+
+const OLD_SECRET = 'old-secret-old-secret-old-secret-0001';
+const NEW_SECRET = 'new-secret-new-secret-new-secret-0002';
+
+// Both modules resolve data/ from the working directory when they are loaded
+let encryption: typeof import('./encryption.js');
+let userTokens: typeof import('./userTokens.js');
+let originalCwd: string;
+let tempDir: string;
+
+const useSecrets = (current: string, previous: string = '') => {
+  process.env.ENCRYPTION_SECRET = current;
+  process.env.ENCRYPTION_PREVIOUS_SECRETS = previous;
+};
+
+// iv:authTag:ciphertext, as written before key IDs existed
+async function legacyEncrypt(token: string, secret: string): Promise<string> {
+  const salt = Buffer.from(await fs.readFile(path.join(tempDir, 'data', 'encryption.salt'), 'utf-8'), 'hex');
+  const key = crypto.pbkdf2Sync(secret, salt, 100000, 32, 'sha256');
+  const iv = crypto.randomBytes(16);
+  const cipher = crypto.createCipheriv('aes-256-gcm', key, iv);
+  const encrypted = cipher.update(token, 'utf8', 'hex') + cipher.final('hex');
+  return `${iv.toString('hex')}:${cipher.getAuthTag().toString('hex')}:${encrypted}`;
+}
+
+beforeAll(async () => {
+  originalCwd = process.cwd();
+  tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'encryption-test-'));
+  process.chdir(tempDir);
+
+  encryption = await import('./encryption.js');
+  userTokens = await import('./userTokens.js');
+  jest.spyOn(console, 'log').mockImplementation(() => {});
+  await encryption.initEncryption();
+});
+
+afterAll(async () => {
+  process.chdir(originalCwd);
+  await fs.rm(tempDir, { recursive: true, force: true });
+  delete process.env.ENCRYPTION_PREVIOUS_SECRETS;
+});
+
+beforeEach(() => {
+  jest.spyOn(console, 'error').mockImplementation(() => {});
+  useSecrets(NEW_SECRET);
+});
+
+describe('Encryption - Versioned format', () => {
+  it('should tag ciphertext with the version and the current key ID', () => {
+    const encrypted = encryption.encryptToken('ghp_secret');
+    const [version, keyId] = encrypted.split(':');
+
+    expect(version).toBe('v2');
+    expect(keyId).toBe(encryption.getCurrentKeyId());
+    expect(keyId).toMatch(/^[0-9a-f]{8}$/);
+    expect(encryption.decryptToken(encrypted)).toBe('ghp_secret');
+    expect(encryption.needsReEncryption(encrypted)).toBe(false);
+  });
+
+  it('should decrypt tokens from a previous secret while it is still configured', () => {
+    useSecrets(OLD_SECRET);
+    const encrypted = encryption.encryptToken('ghp_old');
+
+    useSecrets(NEW_SECRET, OLD_SECRET);
+    expect(encryption.decryptToken(encrypted)).toBe('ghp_old');
+    expect(encryption.needsReEncryption(encrypted)).toBe(true);
+
+    useSecrets(NEW_SECRET);
+    expect(() => encryption.decryptToken(encrypted)).toThrow('Falha ao descriptografar token de segurança');
+  });
+
+  it('should still read the legacy format with any configured key', async () => {
+    const legacy = await legacyEncrypt('ghp_legacy', OLD_SECRET);
+
+    useSecrets(NEW_SECRET, OLD_SECRET);
+    expect(encryption.decryptToken(legacy)).toBe('ghp_legacy');
+    expect(encryption.needsReEncryption(legacy)).toBe(true);
+  });
+
+  it('should reject previous secrets that are too short', () => {
+    useSecrets(NEW_SECRET, 'short');
+    expect(() => encryption.encryptToken('ghp_secret')).toThrow('Falha ao criptografar token de segurança');
+  });
+});
+
+describe('Encryption - Key rotation', () => {
+  it('should re-encrypt stored tokens with the current key and report undecryptable ones', async () => {
+    useSecrets(OLD_SECRET);
+    await userTokens.saveUserToken('user-1', 'ghp_first', 'first');
+
+    useSecrets(NEW_SECRET);
+    await userTokens.saveUserToken('user-2', 'ghp_second', 'second');
+
+    // A token from a secret nobody configured anymore
+    useSecrets('lost-secret-lost-secret-lost-secret-03');
+    await userTokens.saveUserToken('user-3', 'ghp_lost', 'lost');
+
+    useSecrets(NEW_SECRET, OLD_SECRET);
+    const result = await userTokens.rotateUserTokens();
+    expect(result).toEqual({ rotated: 1, unchanged: 1, failed: ['user-3'] });
+
+    // The old secret is no longer needed for rotated tokens
+    useSecrets(NEW_SECRET);
+    expect(await userTokens.getUserToken('user-1')).toBe('ghp_first');
+    expect(await userTokens.getUserToken('user-2')).toBe('ghp_second');
+    expect(await userTokens.getUserToken('user-3')).toBeNull();
+    expect((await userTokens.getUserData('user-3'))?.githubUsername).toBe('lost');
+  });
+});
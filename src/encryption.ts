@@ -45,7 +45,51 @@ async function getOrCreateSalt(): Promise<Buffer> {
   }
 }
 
-function getEncryptionKey(): Buffer {
+const FORMAT_VERSION = 'v2';
+
+interface EncryptionKey {
+  id: string;
+  key: Buffer;
+}
+
+// PBKDF2 is slow on purpose, so each secret is derived once per process
+const derivedKeys = new Map<string, EncryptionKey>();
+
+function validateSecret(secret: string, name: string): void {
+  if (secret.length < 32) {
+    throw new Error(
+      `${name} deve ter no mínimo 32 caracteres para segurança adequada.`
+    );
+  }
+}
+
+function deriveKey(secret: string): EncryptionKey {
+  // Use synchronous version for compatibility, but salt is loaded async at startup
+  if (!cachedSalt) {
+    throw new Error('Encryption salt not initialized. Call initEncryption() at startup.');
+  }
+
+  const cacheKey = cachedSalt.toString('hex') + ':' + secret;
+  let derived = derivedKeys.get(cacheKey);
+  if (!derived) {
+    const key = crypto.pbkdf2Sync(secret, cachedSalt, 100000, KEY_LENGTH, 'sha256');
+    // The ID comes from the derived key, so it reveals nothing about the secret
+    const id = crypto.createHmac('sha256', key).update('key-id').digest('hex').slice(0, 8);
+    derived = { id, key };
+    derivedKeys.set(cacheKey, derived);
+  }
+  return derived;
+}
+
+function getPreviousSecrets(): string[] {
+  return (process.env.ENCRYPTION_PREVIOUS_SECRETS || '')
+    .split(',')
+    .map(secret => secret.trim())
+    .filter(Boolean);
+}
+
+// The current key first, then the keys of previous secrets still accepted for decryption
+function getEncryptionKeys(): EncryptionKey[] {
   const secret = process.env.ENCRYPTION_SECRET;
   
   if (!secret) {
@@ -55,27 +99,25 @@ function getEncryptionKey(): Buffer {
     );
   }
   
-  if (secret.length < 32) {
-    throw new Error(
-      'ENCRYPTION_SECRET deve ter no mínimo 32 caracteres para segurança adequada.'
-    );
-  }
-  
-  // Use synchronous version for compatibility, but salt is loaded async at startup
-  if (!cachedSalt) {
-    throw new Error('Encryption salt not initialized. Call initEncryption() at startup.');
-  }
+  validateSecret(secret, 'ENCRYPTION_SECRET');
+  const previous = getPreviousSecrets();
+  previous.forEach(value => validateSecret(value, 'Cada chave em ENCRYPTION_PREVIOUS_SECRETS'));
+
+  return [secret, ...previous].map(deriveKey);
+}
 
-  return crypto.pbkdf2Sync(secret, cachedSalt, 100000, KEY_LENGTH, 'sha256');
+export function getCurrentKeyId(): string {
+  return getEncryptionKeys()[0].id;
 }
 
 export async function initEncryption(): Promise<void> {
   await getOrCreateSalt();
 }
 
+// Format: v2:<keyId>:<iv>:<authTag>:<ciphertext>, all hex
 export function encryptToken(token: string): string {
   try {
-    const key = getEncryptionKey();
+    const { id, key } = getEncryptionKeys()[0];
     const iv = crypto.randomBytes(IV_LENGTH);
     
     const cipher = crypto.createCipheriv(ALGORITHM, key, iv);
@@ -85,37 +127,58 @@ export function encryptToken(token: string): string {
     
     const authTag = cipher.getAuthTag();
     
-    const result = iv.toString('hex') + ':' + authTag.toString('hex') + ':' + encrypted;
-    
-    return result;
+    return [FORMAT_VERSION, id, iv.toString('hex'), authTag.toString('hex'), encrypted].join(':');
   } catch (error: any) {
     console.error('Erro ao criptografar token:', error);
     throw new Error('Falha ao criptografar token de segurança');
   }
 }
 
+function decryptWithKey(key: Buffer, ivHex: string, authTagHex: string, encrypted: string): string {
+  const decipher = crypto.createDecipheriv(ALGORITHM, key, Buffer.from(ivHex, 'hex'));
+  decipher.setAuthTag(Buffer.from(authTagHex, 'hex'));
+  
+  let decrypted = decipher.update(encrypted, 'hex', 'utf8');
+  decrypted += decipher.final('utf8');
+  
+  return decrypted;
+}
+
 export function decryptToken(encryptedData: string): string {
   try {
-    const key = getEncryptionKey();
-    
+    const keys = getEncryptionKeys();
     const parts = encryptedData.split(':');
-    if (parts.length !== 3) {
-      throw new Error('Formato de token criptografado inválido');
+
+    if (parts.length === 5 && parts[0] === FORMAT_VERSION) {
+      const [, keyId, iv, authTag, encrypted] = parts;
+      const match = keys.find(candidate => candidate.id === keyId);
+      if (!match) {
+        throw new Error(`Chave ${keyId} não está entre as chaves configuradas`);
+      }
+      return decryptWithKey(match.key, iv, authTag, encrypted);
     }
-    
-    const iv = Buffer.from(parts[0], 'hex');
-    const authTag = Buffer.from(parts[1], 'hex');
-    const encrypted = parts[2];
-    
-    const decipher = crypto.createDecipheriv(ALGORITHM, key, iv);
-    decipher.setAuthTag(authTag);
-    
-    let decrypted = decipher.update(encrypted, 'hex', 'utf8');
-    decrypted += decipher.final('utf8');
-    
-    return decrypted;
+
+    // Legacy iv:authTag:ciphertext carries no key ID, so every configured key is tried
+    if (parts.length === 3) {
+      for (const { key } of keys) {
+        try {
+          return decryptWithKey(key, parts[0], parts[1], parts[2]);
+        } catch {
+          // Wrong key, try the next one
+        }
+      }
+      throw new Error('Nenhuma das chaves configuradas descriptografa este token');
+    }
+
+    throw new Error('Formato de token criptografado inválido');
   } catch (error: any) {
     console.error('Erro ao descriptografar token:', error);
     throw new Error('Falha ao descriptografar token de segurança');
   }
 }
+
+// True when the value is in the legacy format or was encrypted with a previous key
+export function needsReEncryption(encryptedData: string): boolean {
+  const parts = encryptedData.split(':');
+  return parts.length !== 5 || parts[0] !== FORMAT_VERSION || parts[1] !== getCurrentKeyId();
+}
@@ -0,0 +1,162 @@
+import { describe, it, expect, beforeEach, afterEach, jest } from '@jest/globals';
+import { spawn, ChildProcess } from 'child_process';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { FileLock, withFileLock, getLockMetrics } from './fileLock.js';
+
+// Runs in separate Node processes through tsx, using the real module
+const CHILD_SCRIPT = `
+import { FileLock, withFileLock } from ${JSON.stringify(path.resolve('src/fileLock.ts'))};
+import { promises as fs } from 'fs';
+
+const [mode, lockPath, arg1, arg2] = process.argv.slice(2);
+const sleep = (ms) => new Promise(resolve => setTimeout(resolve, ms));
+
+if (mode === 'hold' || mode === 'crash') {
+  const lock = new FileLock(lockPath);
+  await lock.acquire();
+  console.log('locked');
+  if (mode === 'crash') process.exit(0);
+  await sleep(Number(arg1));
+  await lock.release();
+} else if (mode === 'increment') {
+  for (let i = 0; i < Number(arg2); i++) {
+    await withFileLock(lockPath, async () => {
+      const value = Number(await fs.readFile(arg1, 'utf-8'));
+      await sleep(5);
+      await fs.writeFile(arg1, String(value + 1));
+    });
+  }
+}
+`;
+
+let tempDir: string;
+let lockPath: string;
+let scriptPath: string;
+const children: ChildProcess[] = [];
+
+function runChild(...args: string[]): { child: ChildProcess; locked: Promise<void>; exited: Promise<number | null> } {
+  const child = spawn(process.execPath, ['--import', 'tsx', scriptPath, ...args], { cwd: process.cwd() });
+  children.push(child);
+
+  const locked = new Promise<void>((resolve, reject) => {
+    child.stdout!.on('data', data => String(data).includes('locked') && resolve());
+    child.once('exit', () => reject(new Error('child exited before locking')));
+  });
+  locked.catch(() => {});
+  const exited = new Promise<number | null>(resolve => child.once('exit', resolve));
+  return { child, locked, exited };
+}
+
+const metricsFor = (file: string) => getLockMetrics().find(entry => entry.lockPath === file);
+
+beforeEach(async () => {
+  tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'file-lock-test-'));
+  lockPath = path.join(tempDir, 'data.lock');
+  scriptPath = path.join(tempDir, 'child.mts');
+  await fs.writeFile(scriptPath, CHILD_SCRIPT);
+});
+
+afterEach(async () => {
+  for (const child of children.splice(0)) {
+    if (child.exitCode === null) child.kill();
+  }
+  jest.restoreAllMocks();
+  await fs.rm(tempDir, { recursive: true, force: true });
+});
+
+describe('File Lock - Owner liveness', () => {
+  it('should take over a lock whose owner process has exited', async () => {
+    const { locked, exited } = runChild('crash', lockPath);
+    await locked;
+    await exited;
+    await expect(fs.access(lockPath)).resolves.toBeUndefined();
+
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    const start = Date.now();
+    await withFileLock(lockPath, async () => {});
+
+    // The dead PID is detected right away, without waiting for the heartbeat to go stale
+    expect(Date.now() - start).toBeLessThan(2000);
+    expect(metricsFor(lockPath)?.staleRemoved).toBe(1);
+  }, 20000);
+
+  it('should wait for a live holder and keep its lock fresh', async () => {
+    const { child, locked, exited } = runChild('hold', lockPath, '3000');
+    await locked;
+    const firstMtime = (await fs.stat(lockPath)).mtimeMs;
+
+    await expect(new FileLock(lockPath, { timeout: 1500 }).acquire()).rejects.toThrow('timeout');
+
+    const owner = JSON.parse(await fs.readFile(lockPath, 'utf-8'));
+    expect(owner.pid).toBe(child.pid);
+    expect((await fs.stat(lockPath)).mtimeMs).toBeGreaterThan(firstMtime);
+
+    await withFileLock(lockPath, async () => {});
+    expect(await exited).toBe(0);
+    expect(metricsFor(lockPath)).toMatchObject({ timeouts: 1, staleRemoved: 0, contended: 1 });
+  }, 20000);
+
+  it('should never take over from a live holder on this machine, even without heartbeats', async () => {
+    const { locked } = runChild('hold', lockPath, '3000');
+    await locked;
+
+    // As if the holder's event loop had been blocked for a minute
+    const longAgo = new Date(Date.now() - 60000);
+    await fs.utimes(lockPath, longAgo, longAgo);
+
+    await expect(new FileLock(lockPath, { timeout: 300 }).acquire()).rejects.toThrow('timeout');
+    expect(metricsFor(lockPath)?.staleRemoved).toBe(0);
+  }, 20000);
+
+  it('should rely on the heartbeat for holders on other machines', async () => {
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    await fs.writeFile(lockPath, JSON.stringify({ pid: 1, hostname: 'another-host', instance: 'remote' }));
+
+    await expect(new FileLock(lockPath, { timeout: 300 }).acquire()).rejects.toThrow('timeout');
+
+    const longAgo = new Date(Date.now() - 60000);
+    await fs.utimes(lockPath, longAgo, longAgo);
+    await withFileLock(lockPath, async () => {});
+    expect(metricsFor(lockPath)?.staleRemoved).toBe(1);
+  });
+});
+
+describe('File Lock - Concurrent processes', () => {
+  it('should never let two writers interleave', async () => {
+    const counter = path.join(tempDir, 'counter.txt');
+    await fs.writeFile(counter, '0');
+
+    const runs = [1, 2, 3].map(() => runChild('increment', lockPath, counter, '15'));
+    const codes = await Promise.all(runs.map(run => run.exited));
+
+    expect(codes).toEqual([0, 0, 0]);
+    expect(await fs.readFile(counter, 'utf-8')).toBe('45');
+  }, 30000);
+});
+
+describe('File Lock - Shared locks', () => {
+  it('should let readers share the lock and keep writers out until they finish', async () => {
+    const first = new FileLock(lockPath, { mode: 'shared' });
+    const second = new FileLock(lockPath, { mode: 'shared' });
+    await first.acquire();
+    await second.acquire();
+
+    await expect(new FileLock(lockPath, { timeout: 200 }).acquire()).rejects.toThrow('timeout');
+    // The writer gave up, so its lock file is gone too
+    await expect(fs.access(lockPath)).rejects.toThrow();
+
+    const writer = new FileLock(lockPath);
+    const acquired = writer.acquire();
+    await first.release();
+    await second.release();
+    await acquired;
+
+    await expect(new FileLock(lockPath, { mode: 'shared', timeout: 200 }).acquire()).rejects.toThrow('timeout');
+    await writer.release();
+
+    expect(metricsFor(lockPath)).toMatchObject({ acquisitions: 3, timeouts: 2 });
+    expect(await fs.readdir(tempDir)).toEqual(['child.mts']);
+  });
+});
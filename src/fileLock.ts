@@ -0,0 +1,285 @@
+import crypto from 'crypto';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+
+const LOCK_TIMEOUT = 5000; // 5 seconds max wait for lock
+const RETRY_DELAY = 50;
+const HEARTBEAT_INTERVAL = 1000; // Holders touch their lock file this often
+const STALE_TIMEOUT = 10000; // Without a heartbeat for this long the holder is gone or hung
+
+// Tells this process apart from an earlier one that got the same PID (e.g. PID 1 in containers)
+const INSTANCE_ID = crypto.randomBytes(8).toString('hex');
+
+export type LockMode = 'exclusive' | 'shared';
+
+export interface FileLockOptions {
+  // exclusive: one holder, no readers. shared: any number of readers, no writer
+  mode?: LockMode;
+  timeout?: number;
+}
+
+interface LockOwner {
+  pid: number;
+  hostname: string;
+  instance?: string;
+}
+
+export interface LockMetrics {
+  lockPath: string;
+  acquisitions: number;
+  // Acquisitions that had to wait for another holder
+  contended: number;
+  totalWaitMs: number;
+  maxWaitMs: number;
+  timeouts: number;
+  staleRemoved: number;
+}
+
+const metrics = new Map<string, LockMetrics>();
+let readerSequence = 0;
+
+function getMetrics(lockPath: string): LockMetrics {
+  let entry = metrics.get(lockPath);
+  if (!entry) {
+    entry = { lockPath, acquisitions: 0, contended: 0, totalWaitMs: 0, maxWaitMs: 0, timeouts: 0, staleRemoved: 0 };
+    metrics.set(lockPath, entry);
+  }
+  return entry;
+}
+
+export function getLockMetrics(): LockMetrics[] {
+  return Array.from(metrics.values(), entry => ({ ...entry }));
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+function isProcessAlive(pid: number): boolean {
+  try {
+    // Signal 0 only checks that the process exists
+    process.kill(pid, 0);
+    return true;
+  } catch (error: any) {
+    // EPERM: it exists but belongs to another user
+    return error.code === 'EPERM';
+  }
+}
+
+function parseOwner(content: string): LockOwner | null {
+  try {
+    const owner = JSON.parse(content);
+    // Lock files written before the owner record held only the PID
+    if (typeof owner === 'number') {
+      return { pid: owner, hostname: os.hostname() };
+    }
+    return typeof owner?.pid === 'number' ? owner : null;
+  } catch {
+    // Still being written by its creator
+    return null;
+  }
+}
+
+async function isStale(filePath: string, mtimeMs: number): Promise<boolean> {
+  const heartbeatLost = Date.now() - mtimeMs > STALE_TIMEOUT;
+  const owner = parseOwner(await fs.readFile(filePath, 'utf-8'));
+
+  // PIDs on other machines cannot be checked; only the heartbeat tells.
+  // An unreadable owner is either still being written or was cut short by a crash.
+  if (!owner || owner.hostname !== os.hostname()) {
+    return heartbeatLost;
+  }
+
+  // On this machine the owner is checked directly, so a busy holder that missed heartbeats keeps its lock
+  if (owner.pid === process.pid) {
+    return owner.instance !== INSTANCE_ID;
+  }
+  return !isProcessAlive(owner.pid);
+}
+
+// Removes the file when its owner is gone. Returns true when the file no longer exists.
+async function removeIfStale(filePath: string, lockMetrics: LockMetrics): Promise<boolean> {
+  try {
+    const before = await fs.stat(filePath);
+    if (!await isStale(filePath, before.mtimeMs)) {
+      return false;
+    }
+
+    // Only delete the file that was judged stale, not one a new holder just created
+    const current = await fs.stat(filePath);
+    if (current.ino !== before.ino) {
+      return false;
+    }
+    await fs.unlink(filePath);
+    lockMetrics.staleRemoved++;
+    console.warn(`⚠️ Trava abandonada removida: ${path.basename(filePath)}`);
+    return true;
+  } catch (error: any) {
+    if (error.code === 'ENOENT') {
+      // Released or removed by someone else meanwhile
+      return true;
+    }
+    throw error;
+  }
+}
+
+async function createExclusive(filePath: string): Promise<boolean> {
+  const owner: LockOwner = { pid: process.pid, hostname: os.hostname(), instance: INSTANCE_ID };
+  try {
+    // Fails if the file exists
+    await fs.writeFile(filePath, JSON.stringify(owner), { flag: 'wx' });
+    return true;
+  } catch (error: any) {
+    if (error.code === 'EEXIST') {
+      return false;
+    }
+    throw error;
+  }
+}
+
+// File-based lock shared by every process using the same data/ directory.
+// Writers hold <lockPath>; each reader holds its own <lockPath>.read-* file.
+export class FileLock {
+  private lockPath: string;
+  private mode: LockMode;
+  private timeout: number;
+  private heldPath: string | null = null;
+  private heartbeat: NodeJS.Timeout | null = null;
+
+  constructor(lockPath: string, options: FileLockOptions = {}) {
+    this.lockPath = lockPath;
+    this.mode = options.mode ?? 'exclusive';
+    this.timeout = options.timeout ?? LOCK_TIMEOUT;
+  }
+
+  async acquire(): Promise<void> {
+    const lockMetrics = getMetrics(this.lockPath);
+    const startTime = Date.now();
+    const deadline = startTime + this.timeout;
+    let waited = false;
+
+    const wait = async () => {
+      if (Date.now() >= deadline) {
+        lockMetrics.timeouts++;
+        throw new Error('Failed to acquire file lock: timeout');
+      }
+      waited = true;
+      await sleep(RETRY_DELAY);
+    };
+
+    if (this.mode === 'exclusive') {
+      while (!await createExclusive(this.lockPath)) {
+        if (!await removeIfStale(this.lockPath, lockMetrics)) {
+          await wait();
+        }
+      }
+      this.hold(this.lockPath);
+
+      // New readers back off once the writer lock exists; wait for the current ones to finish
+      try {
+        while (await this.hasActiveReaders(lockMetrics)) {
+          await wait();
+        }
+      } catch (error) {
+        await this.release();
+        throw error;
+      }
+    } else {
+      const readerPath = `${this.lockPath}.read-${INSTANCE_ID}-${++readerSequence}`;
+
+      while (true) {
+        if (await this.writerActive(lockMetrics)) {
+          await wait();
+          continue;
+        }
+
+        await fs.writeFile(readerPath, JSON.stringify({ pid: process.pid, hostname: os.hostname(), instance: INSTANCE_ID }));
+        // A writer may have taken the lock between the check and the write
+        if (!await this.writerActive(lockMetrics)) {
+          break;
+        }
+        await fs.unlink(readerPath).catch(() => {});
+        await wait();
+      }
+      this.hold(readerPath);
+    }
+
+    const waitMs = Date.now() - startTime;
+    lockMetrics.acquisitions++;
+    lockMetrics.totalWaitMs += waitMs;
+    lockMetrics.maxWaitMs = Math.max(lockMetrics.maxWaitMs, waitMs);
+    if (waited) {
+      lockMetrics.contended++;
+    }
+  }
+
+  private async writerActive(lockMetrics: LockMetrics): Promise<boolean> {
+    try {
+      await fs.access(this.lockPath);
+    } catch {
+      return false;
+    }
+    return !await removeIfStale(this.lockPath, lockMetrics);
+  }
+
+  private async hasActiveReaders(lockMetrics: LockMetrics): Promise<boolean> {
+    const prefix = path.basename(this.lockPath) + '.read-';
+    const entries = await fs.readdir(path.dirname(this.lockPath));
+
+    for (const entry of entries.filter(name => name.startsWith(prefix))) {
+      if (!await removeIfStale(path.join(path.dirname(this.lockPath), entry), lockMetrics)) {
+        return true;
+      }
+    }
+    return false;
+  }
+
+  private hold(filePath: string): void {
+    this.heldPath = filePath;
+    // Keeps the mtime fresh so slow holders are never mistaken for stale ones
+    this.heartbeat = setInterval(() => {
+      const now = new Date();
+      fs.utimes(filePath, now, now).catch(() => {});
+    }, HEARTBEAT_INTERVAL);
+    this.heartbeat.unref();
+  }
+
+  async release(): Promise<void> {
+    if (this.heartbeat) {
+      clearInterval(this.heartbeat);
+      this.heartbeat = null;
+    }
+
+    if (this.heldPath) {
+      try {
+        await fs.unlink(this.heldPath);
+      } catch (error: any) {
+        // Ignore errors on release
+        if (error.code !== 'ENOENT') {
+          console.warn('Failed to release lock:', error.message);
+        }
+      }
+      this.heldPath = null;
+    }
+  }
+}
+
+export async function withFileLock<T>(lockPath: string, fn: () => Promise<T>): Promise<T> {
+  const lock = new FileLock(lockPath);
+  try {
+    await lock.acquire();
+    return await fn();
+  } finally {
+    await lock.release();
+  }
+}
+
+// For reads that must not see a half-finished write; runs alongside other readers
+export async function withSharedFileLock<T>(lockPath: string, fn: () => Promise<T>): Promise<T> {
+  const lock = new FileLock(lockPath, { mode: 'shared' });
+  try {
+    await lock.acquire();
+    return await fn();
+  } finally {
+    await lock.release();
+  }
+}
@@ -0,0 +1,148 @@
+import crypto from 'crypto';
+
+export interface GitHubAppConfig {
+  appId: string;
+  // PEM private key from the App settings page
+  privateKey: string;
+  // Discord servers whose members may upload through the App
+  allowedGuilds: string[];
+  // Lowercase "owner/repo" or "owner/*" patterns each server may upload to through the App
+  allowedRepos: Record<string, string[]>;
+}
+
+export interface RepositoryInstallation {
+  installationId: number;
+  canWrite: boolean;
+}
+
+interface CachedToken {
+  token: string;
+  expiresAt: number;
+}
+
+const GITHUB_API = 'https://api.github.com';
+const JWT_LIFETIME = 9 * 60; // Seconds; GitHub accepts at most 10 minutes
+const CLOCK_DRIFT = 60; // Seconds iat is moved back to tolerate clock differences
+const TOKEN_REFRESH_MARGIN = 5 * 60 * 1000; // Installation tokens are renewed 5 minutes before they expire
+
+const installationTokens = new Map<number, CachedToken>();
+
+export function loadGitHubAppConfig(env: NodeJS.ProcessEnv = process.env): GitHubAppConfig | null {
+  if (!env.GITHUB_APP_ID || !env.GITHUB_APP_PRIVATE_KEY) {
+    return null;
+  }
+
+  return {
+    appId: env.GITHUB_APP_ID.trim(),
+    // Secrets stores often keep the PEM on one line with literal \n
+    privateKey: env.GITHUB_APP_PRIVATE_KEY.replace(/\\n/g, '\n'),
+    allowedGuilds: (env.GITHUB_APP_ALLOWED_GUILDS || '')
+      .split(',')
+      .map(id => id.trim())
+      .filter(Boolean),
+    allowedRepos: parseAllowedRepos(env.GITHUB_APP_ALLOWED_REPOS || ''),
+  };
+}
+
+// "guildId:owner/repo" entries separated by commas; "owner/*" covers every repository of the owner
+function parseAllowedRepos(value: string): Record<string, string[]> {
+  const allowed: Record<string, string[]> = {};
+
+  for (const item of value.split(',').map(entry => entry.trim()).filter(Boolean)) {
+    const separator = item.indexOf(':');
+    const guildId = item.substring(0, separator).trim();
+    const pattern = item.substring(separator + 1).trim().toLowerCase();
+    if (separator === -1 || !guildId || !/^[^\/\s]+\/[^\/\s]+$/.test(pattern)) {
+      throw new Error(`GITHUB_APP_ALLOWED_REPOS inválido: "${item}" (use servidor:dono/repo ou servidor:dono/*)`);
+    }
+    (allowed[guildId] ??= []).push(pattern);
+  }
+
+  return allowed;
+}
+
+export function isGuildAllowed(config: GitHubAppConfig, guildId: string | null): boolean {
+  return guildId !== null && config.allowedGuilds.includes(guildId);
+}
+
+// Anyone in an allowed server can use the App, so it only reaches repositories listed for that server
+export function isRepositoryAllowed(config: GitHubAppConfig, guildId: string | null, owner: string, repo: string): boolean {
+  if (!isGuildAllowed(config, guildId)) return false;
+
+  const patterns = config.allowedRepos[guildId!] || [];
+  const fullName = `${owner}/${repo}`.toLowerCase();
+  return patterns.some(pattern => pattern === fullName || pattern === `${owner.toLowerCase()}/*`);
+}
+
+function base64url(value: string | Buffer): string {
+  return Buffer.from(value).toString('base64url');
+}
+
+export function createAppJwt(appId: string, privateKey: string, now: number = Date.now()): string {
+  const issuedAt = Math.floor(now / 1000) - CLOCK_DRIFT;
+  const header = base64url(JSON.stringify({ alg: 'RS256', typ: 'JWT' }));
+  const payload = base64url(JSON.stringify({ iat: issuedAt, exp: issuedAt + JWT_LIFETIME, iss: appId }));
+
+  const signature = crypto.createSign('RSA-SHA256').update(`${header}.${payload}`).sign(privateKey);
+  return `${header}.${payload}.${base64url(signature)}`;
+}
+
+async function appRequest<T>(config: GitHubAppConfig, method: string, path: string): Promise<T | null> {
+  const response = await fetch(`${GITHUB_API}${path}`, {
+    method,
+    headers: {
+      Accept: 'application/vnd.github+json',
+      Authorization: `Bearer ${createAppJwt(config.appId, config.privateKey)}`,
+      'X-GitHub-Api-Version': '2022-11-28',
+    },
+  });
+
+  if (response.status === 404) {
+    return null;
+  }
+  if (!response.ok) {
+    throw new Error(`GitHub App request failed: HTTP ${response.status}`);
+  }
+  return await response.json() as T;
+}
+
+// null when the App is not installed on the repository (or cannot see it)
+export async function getRepositoryInstallation(
+  config: GitHubAppConfig,
+  owner: string,
+  repo: string
+): Promise<RepositoryInstallation | null> {
+  const installation = await appRequest<{ id: number; permissions: Record<string, string> }>(
+    config,
+    'GET',
+    `/repos/${encodeURIComponent(owner)}/${encodeURIComponent(repo)}/installation`
+  );
+
+  if (!installation) return null;
+
+  return {
+    installationId: installation.id,
+    canWrite: installation.permissions.contents === 'write',
+  };
+}
+
+export async function getInstallationToken(config: GitHubAppConfig, installationId: number): Promise<string> {
+  const cached = installationTokens.get(installationId);
+  if (cached && cached.expiresAt - Date.now() > TOKEN_REFRESH_MARGIN) {
+    return cached.token;
+  }
+
+  const data = await appRequest<{ token: string; expires_at: string }>(
+    config,
+    'POST',
+    `/app/installations/${installationId}/access_tokens`
+  );
+
+  if (!data) {
+    installationTokens.delete(installationId);
+    throw new Error(`GitHub App installation ${installationId} not found`);
+  }
+
+  installationTokens.set(installationId, { token: data.token, expiresAt: Date.parse(data.expires_at) });
+  return data.token;
+}
@@ -0,0 +1,111 @@
+import { describe, it, expect } from '@jest/globals';
+import { parseGitignore, parsePatternList, isIgnored } from './gitignore.js';
+
+describe('Gitignore - Basic patterns', () => {
+  const rules = parseGitignore([
+    '# dependencies',
+    'node_modules/',
+    'dist',
+    '*.log',
+    '.env',
+    '',
+  ].join('\n'));
+
+  it('should ignore directories at any level', () => {
+    expect(isIgnored(rules, 'node_modules/react/index.js')).toBe(true);
+    expect(isIgnored(rules, 'packages/app/node_modules/x.js')).toBe(true);
+  });
+
+  it('should match names without slashes at any level', () => {
+    expect(isIgnored(rules, 'dist/bundle.js')).toBe(true);
+    expect(isIgnored(rules, 'server/debug.log')).toBe(true);
+    expect(isIgnored(rules, '.env')).toBe(true);
+    expect(isIgnored(rules, 'config/.env')).toBe(true);
+  });
+
+  it('should keep other files', () => {
+    expect(isIgnored(rules, 'src/index.ts')).toBe(false);
+    expect(isIgnored(rules, '.env.example')).toBe(false);
+    expect(isIgnored(rules, 'distribution.md')).toBe(false);
+  });
+
+  it('should apply directory-only patterns to directories only', () => {
+    const dirRules = parseGitignore('build/');
+    expect(isIgnored(dirRules, 'build')).toBe(false);
+    expect(isIgnored(dirRules, 'build/out.js')).toBe(true);
+  });
+});
+
+describe('Gitignore - Anchoring and wildcards', () => {
+  it('should anchor patterns containing a slash', () => {
+    const rules = parseGitignore('/config.json\ndocs/*.md');
+    expect(isIgnored(rules, 'config.json')).toBe(true);
+    expect(isIgnored(rules, 'app/config.json')).toBe(false);
+    expect(isIgnored(rules, 'docs/intro.md')).toBe(true);
+    expect(isIgnored(rules, 'docs/guide/intro.md')).toBe(false);
+  });
+
+  it('should support double asterisks', () => {
+    const rules = parseGitignore('**/cache\nlogs/**\na/**/z.txt');
+    expect(isIgnored(rules, 'cache/file')).toBe(true);
+    expect(isIgnored(rules, 'deep/nested/cache/file')).toBe(true);
+    expect(isIgnored(rules, 'logs/2024/01.txt')).toBe(true);
+    expect(isIgnored(rules, 'a/z.txt')).toBe(true);
+    expect(isIgnored(rules, 'a/b/c/z.txt')).toBe(true);
+  });
+
+  it('should support ? and character classes', () => {
+    const rules = parseGitignore('file?.txt\n*.py[co]\n[!a]*.tmp');
+    expect(isIgnored(rules, 'file1.txt')).toBe(true);
+    expect(isIgnored(rules, 'file10.txt')).toBe(false);
+    expect(isIgnored(rules, 'mod.pyc')).toBe(true);
+    expect(isIgnored(rules, 'mod.py')).toBe(false);
+    expect(isIgnored(rules, 'b.tmp')).toBe(true);
+    expect(isIgnored(rules, 'a.tmp')).toBe(false);
+  });
+});
+
+describe('Gitignore - Negation and nesting', () => {
+  it('should re-include files with negated patterns', () => {
+    const rules = parseGitignore('*.env\n!example.env');
+    expect(isIgnored(rules, 'prod.env')).toBe(true);
+    expect(isIgnored(rules, 'example.env')).toBe(false);
+  });
+
+  it('should not re-include files inside ignored directories', () => {
+    const rules = parseGitignore('vendor/\n!vendor/keep.txt');
+    expect(isIgnored(rules, 'vendor/keep.txt')).toBe(true);
+  });
+
+  it('should scope nested .gitignore rules to their directory', () => {
+    const rules = [
+      ...parseGitignore('*.log'),
+      ...parseGitignore('/generated\n!important.log', 'server'),
+    ];
+    expect(isIgnored(rules, 'server/generated/a.js')).toBe(true);
+    expect(isIgnored(rules, 'generated/a.js')).toBe(false);
+    expect(isIgnored(rules, 'server/important.log')).toBe(false);
+    expect(isIgnored(rules, 'important.log')).toBe(true);
+  });
+
+  it('should handle escaped characters', () => {
+    const rules = parseGitignore('\\#notes.txt\n\\!bang.txt');
+    expect(isIgnored(rules, '#notes.txt')).toBe(true);
+    expect(isIgnored(rules, '!bang.txt')).toBe(true);
+  });
+});
+
+describe('Gitignore - Pattern lists', () => {
+  it('should parse comma-separated option values', () => {
+    const rules = parsePatternList('*.map, coverage/ ,tmp');
+    expect(isIgnored(rules, 'dist/app.js.map')).toBe(true);
+    expect(isIgnored(rules, 'coverage/index.html')).toBe(true);
+    expect(isIgnored(rules, 'tmp')).toBe(true);
+    expect(isIgnored(rules, 'src/app.js')).toBe(false);
+  });
+
+  it('should return no rules for empty input', () => {
+    expect(parsePatternList('')).toEqual([]);
+    expect(parsePatternList(null)).toEqual([]);
+  });
+});
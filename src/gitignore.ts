@@ -0,0 +1,154 @@
+export interface IgnoreRule {
+  pattern: string;
+  negated: boolean;
+  directoryOnly: boolean;
+  // Directory the rule is relative to ('' for the root)
+  base: string;
+  regex: RegExp;
+}
+
+function escapeRegExp(char: string): string {
+  return /[.*+?^${}()|[\]\\/]/.test(char) ? '\\' + char : char;
+}
+
+export function globToRegExp(pattern: string, anchored: boolean): RegExp {
+  let source = '';
+  let i = 0;
+
+  while (i < pattern.length) {
+    const char = pattern[i];
+
+    if (char === '*') {
+      if (pattern[i + 1] === '*') {
+        const atSegmentStart = i === 0 || pattern[i - 1] === '/';
+        const atSegmentEnd = i + 2 === pattern.length || pattern[i + 2] === '/';
+
+        if (atSegmentStart && atSegmentEnd) {
+          if (i + 2 === pattern.length) {
+            // Trailing "/**" matches everything inside
+            source += '.*';
+            i += 2;
+          } else {
+            // "**/" matches zero or more directories
+            source += '(?:.*/)?';
+            i += 3;
+          }
+          continue;
+        }
+      }
+
+      // Consecutive asterisks elsewhere behave like a single one
+      while (pattern[i] === '*') i++;
+      source += '[^/]*';
+      continue;
+    }
+
+    if (char === '?') {
+      source += '[^/]';
+      i++;
+      continue;
+    }
+
+    if (char === '[') {
+      const close = pattern.indexOf(']', i + 2);
+      if (close !== -1) {
+        let set = pattern.substring(i + 1, close).replace(/\\/g, '\\\\');
+        if (set.startsWith('!')) set = '^' + set.substring(1);
+        source += `[${set}]`;
+        i = close + 1;
+        continue;
+      }
+    }
+
+    if (char === '\\' && i + 1 < pattern.length) {
+      source += escapeRegExp(pattern[i + 1]);
+      i += 2;
+      continue;
+    }
+
+    source += escapeRegExp(char);
+    i++;
+  }
+
+  return new RegExp((anchored ? '^' : '^(?:.*/)?') + source + '$');
+}
+
+export function parseGitignore(content: string, base: string = ''): IgnoreRule[] {
+  const rules: IgnoreRule[] = [];
+
+  for (const rawLine of content.split(/\r?\n/)) {
+    // Trailing spaces are ignored unless escaped
+    let line = rawLine.replace(/(?<!\\)\s+$/, '');
+    if (!line || line.startsWith('#')) continue;
+
+    let negated = false;
+    if (line.startsWith('!')) {
+      negated = true;
+      line = line.substring(1);
+    } else if (line.startsWith('\\!') || line.startsWith('\\#')) {
+      line = line.substring(1);
+    }
+
+    let directoryOnly = false;
+    if (line.endsWith('/')) {
+      directoryOnly = true;
+      line = line.replace(/\/+$/, '');
+    }
+
+    if (!line) continue;
+
+    // A slash anywhere but the end anchors the pattern to the .gitignore location
+    const anchored = line.includes('/');
+    const pattern = line.replace(/^\/+/, '');
+
+    rules.push({
+      pattern: rawLine.trim(),
+      negated,
+      directoryOnly,
+      base,
+      regex: globToRegExp(pattern, anchored),
+    });
+  }
+
+  return rules;
+}
+
+export function parsePatternList(list: string | null | undefined): IgnoreRule[] {
+  if (!list) return [];
+  return parseGitignore(list.split(',').map(pattern => pattern.trim()).join('\n'));
+}
+
+function matchRules(rules: IgnoreRule[], path: string, isDirectory: boolean): boolean {
+  let ignored = false;
+
+  // Last matching rule wins, so negations can re-include earlier matches
+  for (const rule of rules) {
+    if (rule.directoryOnly && !isDirectory) continue;
+
+    let relativePath = path;
+    if (rule.base) {
+      if (!path.startsWith(rule.base + '/')) continue;
+      relativePath = path.substring(rule.base.length + 1);
+    }
+
+    if (rule.regex.test(relativePath)) {
+      ignored = !rule.negated;
+    }
+  }
+
+  return ignored;
+}
+
+export function isIgnored(rules: IgnoreRule[], path: string): boolean {
+  if (rules.length === 0) return false;
+
+  // Like git, a file inside an ignored directory cannot be re-included
+  const segments = path.split('/');
+  for (let i = 1; i < segments.length; i++) {
+    if (matchRules(rules, segments.slice(0, i).join('/'), true)) {
+      return true;
+    }
+  }
+
+  return matchRules(rules, path, false);
+}
@@ -0,0 +1,94 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { withFileLock } from './fileLock.js';
+
+export type LargeFilePolicy = 'rejeitar' | 'lfs';
+
+export interface GuildSettings {
+  // What to do with files above maxFileSizeMB
+  largeFilePolicy: LargeFilePolicy;
+  maxFileSizeMB: number;
+  updatedAt?: string;
+  updatedBy?: string;
+}
+
+interface GuildSettingsDatabase {
+  [guildId: string]: GuildSettings;
+}
+
+const SETTINGS_FILE = path.join(process.cwd(), 'data', 'guild_settings.json');
+const LOCK_FILE = path.join(process.cwd(), 'data', 'guild_settings.lock');
+
+// GitHub refuses blobs above 100MB, so normal uploads can never go past it
+export const MAX_BLOB_SIZE_MB = 100;
+
+export const DEFAULT_GUILD_SETTINGS: GuildSettings = {
+  largeFilePolicy: 'rejeitar',
+  maxFileSizeMB: 50,
+};
+
+async function ensureDataDir(): Promise<void> {
+  const dataDir = path.dirname(SETTINGS_FILE);
+  try {
+    await fs.access(dataDir);
+  } catch {
+    await fs.mkdir(dataDir, { recursive: true });
+  }
+}
+
+async function loadSettings(): Promise<GuildSettingsDatabase> {
+  try {
+    await ensureDataDir();
+    const data = await fs.readFile(SETTINGS_FILE, 'utf-8');
+    return JSON.parse(data);
+  } catch (error: any) {
+    if (error.code === 'ENOENT') {
+      return {};
+    }
+    throw error;
+  }
+}
+
+async function saveSettings(settings: GuildSettingsDatabase): Promise<void> {
+  await ensureDataDir();
+
+  // Write to temp file first, then atomic rename
+  const tempFile = SETTINGS_FILE + '.tmp';
+  await fs.writeFile(tempFile, JSON.stringify(settings, null, 2));
+  await fs.rename(tempFile, SETTINGS_FILE);
+}
+
+// DMs (no guild) always use the defaults
+export async function getGuildSettings(guildId: string | null): Promise<GuildSettings> {
+  if (!guildId) {
+    return { ...DEFAULT_GUILD_SETTINGS };
+  }
+
+  const settings = await loadSettings();
+  return { ...DEFAULT_GUILD_SETTINGS, ...settings[guildId] };
+}
+
+export async function updateGuildSettings(
+  guildId: string,
+  changes: Partial<Pick<GuildSettings, 'largeFilePolicy' | 'maxFileSizeMB'>>,
+  updatedBy: string
+): Promise<GuildSettings> {
+  if (changes.maxFileSizeMB !== undefined &&
+      (changes.maxFileSizeMB < 1 || changes.maxFileSizeMB > MAX_BLOB_SIZE_MB)) {
+    throw new Error(`maxFileSizeMB must be between 1 and ${MAX_BLOB_SIZE_MB}`);
+  }
+
+  return await withFileLock(LOCK_FILE, async () => {
+    const settings = await loadSettings();
+    const updated: GuildSettings = {
+      ...DEFAULT_GUILD_SETTINGS,
+      ...settings[guildId],
+      ...changes,
+      updatedAt: new Date().toISOString(),
+      updatedBy,
+    };
+    settings[guildId] = updated;
+    await saveSettings(settings);
+    return updated;
+  });
+}
@@ -5,16 +5,101 @@ import {
   Routes,
   SlashCommandBuilder,
   ChatInputCommandInteraction,
+  AutocompleteInteraction,
+  ButtonInteraction,
   AttachmentBuilder,
   EmbedBuilder,
   Attachment,
+  ActionRowBuilder,
+  ButtonBuilder,
+  ButtonStyle,
+  ComponentType,
+  PermissionFlagsBits,
+  WebhookClient,
 } from 'discord.js';
 import { Octokit } from '@octokit/rest';
-import https from 'https';
-import http from 'http';
+import type { EndpointOptions, RequestInterface, RequestParameters, Route } from '@octokit/types';
 import AdmZip from 'adm-zip';
-import { saveUserToken, getUserToken, removeUserToken, hasUserToken, getUserData } from './userTokens.js';
-import { initEncryption } from './encryption.js';
+import crypto from 'crypto';
+import { Readable } from 'stream';
+import {
+  saveUserToken,
+  getUserToken,
+  removeUserToken,
+  hasUserToken,
+  getUserData,
+  listUserData,
+  updateTokenHealth,
+  initTokenStore,
+  UserTokenData,
+} from './userTokens.js';
+import { loadTokenStoreConfig } from './tokenStore.js';
+import { getLockMetrics } from './fileLock.js';
+import {
+  parseTokenExpiration,
+  needsVerification,
+  isExpiringSoon,
+  getTokenNotice,
+  getTokenType,
+  TokenNotice,
+  TokenType,
+} from './tokenHealth.js';
+import { initEncryption, needsReEncryption } from './encryption.js';
+import {
+  openArchive,
+  fileSource,
+  isSupportedArchive,
+  getSupportedExtensions,
+  stripArchiveExtension,
+  isExecutableMode,
+  isSymlinkMode,
+  Archive,
+  ArchiveEntry,
+} from './archive.js';
+import { downloadFile, downloadToTempFile, DownloadedFile } from './download.js';
+import { removeTempFile, removeAllTempFilesSync, cleanupStaleTempFiles } from './tempFiles.js';
+import { parseGitignore, parsePatternList, isIgnored, IgnoreRule } from './gitignore.js';
+import { scanFilesForSecrets, formatSecretFindings } from './secretScanner.js';
+import { getGuildSettings, updateGuildSettings, GuildSettings, LargeFilePolicy, MAX_BLOB_SIZE_MB } from './guildSettings.js';
+import { createLfsObjectFromStream, createLfsPointer, addLfsAttributes, uploadLfsObjects, LfsObject } from './lfs.js';
+import {
+  createUploadJob,
+  updateUploadJob,
+  listUploadJobs,
+  pruneFinishedJobs,
+  isFinishedJob,
+  acquireUploadSlot,
+  releaseUploadSlot,
+  getUploadJob,
+  createJobSignal,
+  clearJobSignal,
+  cancelUploadJob,
+  UploadJob,
+  ZipUploadOptions,
+  NewRepositoryOptions,
+} from './uploadJobs.js';
+import {
+  recordUpload,
+  queryUploadHistory,
+  getUploadHistoryEntry,
+  markUploadUndone,
+  isUndoable,
+  paginate,
+  NewUploadHistoryEntry,
+  UploadHistoryEntry,
+  UploadHistoryStatus,
+  UploadUndo,
+} from './uploadHistory.js';
+import { requestDeviceCode, waitForDeviceToken } from './deviceFlow.js';
+import {
+  loadGitHubAppConfig,
+  isGuildAllowed,
+  isRepositoryAllowed,
+  getRepositoryInstallation,
+  getInstallationToken,
+  GitHubAppConfig,
+} from './githubApp.js';
+import { planUndo, changedPaths, findConflicts, BlobMode, TreeBlob } from './undo.js';
 
 interface ConnectionSettings {
   settings: {
@@ -95,13 +180,43 @@ async function getUserGitHubClient(discordUserId: string): Promise<Octokit | nul
   return new Octokit({ auth: token });
 }
 
-async function verifyGitHubToken(token: string): Promise<{ valid: boolean; username?: string; error?: string; scopes?: string[] }> {
+interface TokenVerification {
+  valid: boolean;
+  username?: string;
+  error?: string;
+  scopes?: string[];
+  // ISO date, null when the token never expires
+  expiresAt?: string | null;
+  // GitHub refused the token itself, as opposed to a network or rate limit failure
+  rejected?: boolean;
+  tokenType?: TokenType;
+  // Valid fine-grained token that no repository was granted to yet; fixable on GitHub without a new token
+  noRepositoryAccess?: boolean;
+}
+
+async function verifyGitHubToken(token: string): Promise<TokenVerification> {
   try {
     const octokit = new Octokit({ auth: token });
+    const tokenType = getTokenType(token);
     
     // Get user info and check token scopes
     const response = await octokit.request('GET /user');
     const user = response.data;
+    const expiresAt = parseTokenExpiration(response.headers['github-authentication-token-expiration'] as string | undefined);
+    
+    // Fine-grained tokens have per-repository permissions instead of scopes, which GitHub
+    // does not expose; /login says so, and a missing Contents write permission surfaces on the first write
+    if (tokenType === 'fine-grained') {
+      const { data: repos } = await octokit.repos.listForAuthenticatedUser({ per_page: 1 });
+      return {
+        valid: true,
+        username: user.login,
+        scopes: [],
+        expiresAt,
+        tokenType,
+        ...(repos.length === 0 && { noRepositoryAccess: true }),
+      };
+    }
     
     // GitHub returns scopes in the X-OAuth-Scopes header
     const scopes = response.headers['x-oauth-scopes']?.split(',').map(s => s.trim()) || [];
@@ -115,77 +230,214 @@ async function verifyGitHubToken(token: string): Promise<{ valid: boolean; usern
       return { 
         valid: false, 
         error: 'Token does not have required "repo" scope. Please generate a new token with repository access.',
-        scopes
+        scopes,
+        rejected: true,
       };
     }
     
-    return { valid: true, username: user.login, scopes };
+    return { valid: true, username: user.login, scopes, expiresAt, tokenType };
   } catch (error: any) {
-    return { valid: false, error: sanitizeErrorMessage(error) };
+    return { valid: false, error: sanitizeErrorMessage(error), rejected: error.status === 401 };
   }
 }
 
-async function downloadFile(url: string): Promise<Buffer> {
-  const MAX_FILE_SIZE = 50 * 1024 * 1024; // 50MB limit
-  const DOWNLOAD_TIMEOUT = 60000; // 60 seconds timeout
-  
-  return new Promise((resolve, reject) => {
-    const protocol = url.startsWith('https') ? https : http;
-    
-    const timeoutId = setTimeout(() => {
-      request.destroy();
-      reject(new Error('Download timeout: file took too long to download'));
-    }, DOWNLOAD_TIMEOUT);
-    
-    const request = protocol
-      .get(url, (response) => {
-        if (response.statusCode !== 200) {
-          clearTimeout(timeoutId);
-          response.destroy();
-          reject(new Error(`Failed to download file: ${response.statusCode}`));
-          return;
-        }
+function isValidRepoName(name: string): boolean {
+  return /^[A-Za-z0-9._-]{1,100}$/.test(name) && name !== '.' && name !== '..';
+}
 
-        const chunks: Buffer[] = [];
-        let totalSize = 0;
-        
-        response.on('data', (chunk: Buffer) => {
-          totalSize += chunk.length;
-          
-          if (totalSize > MAX_FILE_SIZE) {
-            clearTimeout(timeoutId);
-            response.destroy();
-            reject(new Error(`File too large: exceeds ${MAX_FILE_SIZE / 1024 / 1024}MB limit`));
-            return;
-          }
-          
-          chunks.push(chunk);
-        });
-        
-        response.on('end', () => {
-          clearTimeout(timeoutId);
-          resolve(Buffer.concat(chunks));
-        });
-        
-        response.on('error', (error) => {
-          clearTimeout(timeoutId);
-          reject(error);
-        });
-      })
-      .on('error', (error) => {
-        clearTimeout(timeoutId);
-        reject(error);
-      });
-    
-    request.setTimeout(DOWNLOAD_TIMEOUT, () => {
-      request.destroy();
-      reject(new Error('Request timeout: connection timed out'));
-    });
-  });
+function isValidOwnerName(name: string): boolean {
+  return /^[A-Za-z0-9](?:[A-Za-z0-9-]{0,38})$/.test(name);
+}
+
+// GitHub logins are case-insensitive
+function isSameLogin(a: string, b: string): boolean {
+  return a.toLowerCase() === b.toLowerCase();
+}
+
+function parseRepositoryTarget(
+  input: string,
+  organization: string | null,
+  githubUsername: string
+): { owner: string; repo: string } {
+  const value = input.trim().replace(/^https:\/\/github\.com\//, '').replace(/\.git$/, '');
+  const parts = value.split('/');
+
+  if (parts.length > 2) {
+    throw new Error(`Repositório inválido: use \`nome\` ou \`dono/nome\``);
+  }
+
+  const owner = parts.length === 2 ? parts[0] : organization || githubUsername;
+  const repo = parts[parts.length - 1];
+
+  if (parts.length === 2 && organization && organization.toLowerCase() !== owner.toLowerCase()) {
+    throw new Error(`O dono em \`${value}\` não corresponde à organização \`${organization}\``);
+  }
+
+  if (!isValidOwnerName(owner) || !isValidRepoName(repo)) {
+    throw new Error(`Repositório inválido: \`${value}\``);
+  }
+
+  return { owner, repo };
+}
+
+type RepositoryAccess = 'write' | 'read-only' | 'not-found';
+
+// The GitHub App is only offered in servers the bot operator allowed
+function getGitHubAppForGuild(guildId: string | null): GitHubAppConfig | null {
+  const config = loadGitHubAppConfig();
+  return config && isGuildAllowed(config, guildId) ? config : null;
+}
+
+// Tokens last one hour, so each request picks up a fresh one when needed
+function getInstallationOctokit(config: GitHubAppConfig, installationId: number): Octokit {
+  const getToken = () => getInstallationToken(config, installationId);
+
+  // Same shape as @octokit/auth-token, but the token is looked up on every request
+  const auth = async () => ({ type: 'token', tokenType: 'installation', token: await getToken() } as const);
+  const hook = async (request: RequestInterface, route: Route | EndpointOptions, parameters?: RequestParameters) => {
+    const endpoint = typeof route === 'string' ? request.endpoint.merge(route, parameters) : request.endpoint.merge(route);
+    const authorization = `token ${await getToken()}`;
+    // Merging a route or full options always yields a URL
+    return request({ ...endpoint, url: endpoint.url!, headers: { ...endpoint.headers, authorization } });
+  };
+
+  return new Octokit({ authStrategy: () => Object.assign(auth, { hook }) });
+}
+
+// Returns an error message for the user when the App cannot write to the repository
+async function resolveAppTarget(
+  config: GitHubAppConfig,
+  guildId: string | null,
+  repoInput: string,
+  organization: string | null
+): Promise<{ octokit: Octokit; owner: string; repo: string; installationId: number } | string> {
+  // There is no personal account to default the owner to
+  if (!repoInput.includes('/') && !organization) {
+    return `❌ **Informe o dono do repositório**\n\n` +
+      `Sem \`/login\`, os envios são feitos pelo GitHub App do bot: use \`dono/nome\` ou a opção \`organizacao\`.`;
+  }
+
+  let owner: string;
+  let repo: string;
+  try {
+    ({ owner, repo } = parseRepositoryTarget(repoInput, organization, organization || ''));
+  } catch (error: any) {
+    return `❌ **Erro**: ${error.message}`;
+  }
+
+  if (!isRepositoryAllowed(config, guildId, owner, repo)) {
+    return `❌ **\`${owner}/${repo}\` não está liberado para o GitHub App neste servidor**\n\n` +
+      `Peça ao administrador do bot para incluí-lo em \`GITHUB_APP_ALLOWED_REPOS\`, ou use \`/login\` com sua conta.`;
+  }
+
+  const installation = await getRepositoryInstallation(config, owner, repo);
+  if (!installation) {
+    return `❌ **O GitHub App não tem acesso a \`${owner}/${repo}\`**\n\n` +
+      `Instale o App no repositório (ou na organização), ou use \`/login\` com sua conta.`;
+  }
+
+  if (!installation.canWrite) {
+    return `❌ **Sem permissão de escrita em \`${owner}/${repo}\`**\n\n` +
+      `A instalação do GitHub App precisa da permissão **Contents: Read and write**.`;
+  }
+
+  return {
+    octokit: getInstallationOctokit(config, installation.installationId),
+    owner,
+    repo,
+    installationId: installation.installationId,
+  };
 }
 
-function isZipFile(filename: string): boolean {
-  return filename.toLowerCase().endsWith('.zip');
+// GitHub does not expose a fine-grained token's own permissions, so checkWriteAccess only sees the
+// account's role; a token without Contents write fails on its first write with this error instead
+function isTokenPermissionError(error: any): boolean {
+  return error.status === 403 && /not accessible by (personal access token|integration)/i.test(error.message || '');
+}
+
+const TOKEN_PERMISSION_HINT =
+  `🔑 O token não tem permissão de escrita neste repositório. Em tokens fine-grained, inclua o repositório ` +
+  `e conceda **Contents: Read and write** nas configurações do token no GitHub.`;
+
+async function checkWriteAccess(
+  octokit: Octokit,
+  owner: string,
+  repo: string,
+  username: string
+): Promise<RepositoryAccess> {
+  try {
+    const { data } = await octokit.repos.getCollaboratorPermissionLevel({ owner, repo, username });
+    return data.permission === 'admin' || data.permission === 'write' ? 'write' : 'read-only';
+  } catch (error: any) {
+    // GitHub answers 404 both for missing repos and private repos the token cannot see
+    if (error.status === 404) return 'not-found';
+    // 403: only users with push access may read collaborator permissions
+    if (error.status === 403) return 'read-only';
+    throw error;
+  }
+}
+
+async function repositoryExists(octokit: Octokit, owner: string, repo: string): Promise<boolean> {
+  try {
+    await octokit.repos.get({ owner, repo });
+    return true;
+  } catch (error: any) {
+    if (error.status === 404) return false;
+    throw error;
+  }
+}
+
+interface CreateRepositoryOptions {
+  name: string;
+  organization: string | null;
+  isPrivate: boolean;
+  description?: string | null;
+  defaultBranch?: string | null;
+  license?: string | null;
+  gitignore?: string | null;
+}
+
+async function createRepository(
+  octokit: Octokit,
+  options: CreateRepositoryOptions
+): Promise<{ owner: string; name: string; htmlUrl: string; defaultBranch: string }> {
+  if (!isValidRepoName(options.name)) {
+    throw new Error(`Nome de repositório inválido: ${options.name}`);
+  }
+
+  if (options.defaultBranch && !isValidBranchName(options.defaultBranch)) {
+    throw new Error(`Nome de branch inválido: ${options.defaultBranch}`);
+  }
+
+  const params = {
+    name: options.name,
+    private: options.isPrivate,
+    description: options.description || undefined,
+    // Always start with a commit so uploads can use the Git Data API right away
+    auto_init: true,
+    license_template: options.license || undefined,
+    gitignore_template: options.gitignore || undefined,
+  };
+
+  const { data: repo } = options.organization
+    ? await octokit.repos.createInOrg({ org: options.organization, ...params })
+    : await octokit.repos.createForAuthenticatedUser(params);
+
+  let defaultBranch = repo.default_branch || 'main';
+
+  if (options.defaultBranch && options.defaultBranch !== defaultBranch) {
+    await octokit.repos.renameBranch({
+      owner: repo.owner.login,
+      repo: repo.name,
+      branch: defaultBranch,
+      new_name: options.defaultBranch,
+    });
+    defaultBranch = options.defaultBranch;
+  }
+
+  console.log(`📁 Repositório ${repo.full_name} criado (${repo.private ? 'privado' : 'público'})`);
+
+  return { owner: repo.owner.login, name: repo.name, htmlUrl: repo.html_url, defaultBranch };
 }
 
 async function ensureRepoHasContent(
@@ -218,6 +470,105 @@ async function ensureRepoHasContent(
   }
 }
 
+async function buildRepositoryZip(
+  octokit: Octokit,
+  owner: string,
+  repo: string,
+  ref: string,
+  folderPath: string
+): Promise<{ buffer: Buffer; fileCount: number }> {
+  const MAX_TOTAL_SIZE = 100 * 1024 * 1024; // 100MB of repository content
+  const MAX_FILES = 10000;
+  const BATCH_SIZE = 5;
+
+  const output = new AdmZip();
+  const rootName = folderPath ? folderPath.split('/').pop()! : repo;
+
+  if (!folderPath) {
+    // Whole repository: GitHub already builds the archive, only the top folder is renamed
+    const { data } = await octokit.repos.downloadZipballArchive({ owner, repo, ref });
+    const archive = Buffer.from(data as ArrayBuffer);
+
+    if (archive.length > MAX_TOTAL_SIZE) {
+      throw new Error(`Repositório grande demais para baixar pelo Discord (${formatSize(archive.length)})`);
+    }
+
+    const entries = new AdmZip(archive).getEntries().filter(entry => !entry.isDirectory);
+    if (entries.length > MAX_FILES) {
+      throw new Error(`O repositório tem arquivos demais (${entries.length}). Máximo: ${MAX_FILES}`);
+    }
+
+    // The compressed size says little about what gets extracted into memory
+    const uncompressedSize = entries.reduce((sum, entry) => sum + entry.header.size, 0);
+    if (uncompressedSize > MAX_TOTAL_SIZE) {
+      throw new Error(`Repositório grande demais para baixar pelo Discord (${formatSize(uncompressedSize)} descompactados)`);
+    }
+
+    let fileCount = 0;
+    for (const entry of entries) {
+      // Zipball entries live under "<owner>-<repo>-<sha>/"
+      const relativePath = entry.entryName.substring(entry.entryName.indexOf('/') + 1);
+      if (!relativePath) continue;
+      output.addFile(`${rootName}/${relativePath}`, entry.getData());
+      fileCount++;
+    }
+
+    return { buffer: output.toBuffer(), fileCount };
+  }
+
+  const { data: commit } = await octokit.repos.getCommit({ owner, repo, ref });
+
+  // Walk down to the folder one level at a time so only its own subtree is listed recursively
+  let folderSha = commit.commit.tree.sha;
+  for (const segment of folderPath.split('/')) {
+    const { data: level } = await octokit.git.getTree({ owner, repo, tree_sha: folderSha });
+    const child = level.tree.find(item => item.type === 'tree' && item.path === segment);
+    if (!child?.sha) {
+      throw new Error(`A pasta \`${folderPath}\` não existe em \`${ref}\``);
+    }
+    folderSha = child.sha;
+  }
+
+  const { data: tree } = await octokit.git.getTree({ owner, repo, tree_sha: folderSha, recursive: 'true' });
+  if (tree.truncated) {
+    // A partial listing would silently produce an incomplete ZIP
+    throw new Error(`A pasta \`${folderPath}\` tem arquivos demais para a API do GitHub listar. Escolha uma subpasta`);
+  }
+
+  const blobs = tree.tree.filter(item => item.type === 'blob' && item.path && item.sha);
+
+  if (blobs.length === 0) {
+    throw new Error(`A pasta \`${folderPath}\` está vazia em \`${ref}\``);
+  }
+
+  if (blobs.length > MAX_FILES) {
+    throw new Error(`A pasta tem arquivos demais (${blobs.length}). Máximo: ${MAX_FILES}`);
+  }
+
+  const totalSize = blobs.reduce((sum, item) => sum + (item.size || 0), 0);
+  if (totalSize > MAX_TOTAL_SIZE) {
+    throw new Error(`A pasta é grande demais para baixar pelo Discord (${formatSize(totalSize)})`);
+  }
+
+  for (let i = 0; i < blobs.length; i += BATCH_SIZE) {
+    const batch = blobs.slice(i, i + BATCH_SIZE);
+    await Promise.all(
+      batch.map(async (item) => {
+        const { data: blob } = await octokit.git.getBlob({ owner, repo, file_sha: item.sha! });
+        output.addFile(`${rootName}/${item.path}`, Buffer.from(blob.content, 'base64'));
+      })
+    );
+  }
+
+  return { buffer: output.toBuffer(), fileCount: blobs.length };
+}
+
+function formatSize(bytes: number): string {
+  return bytes < 1024 * 1024
+    ? `${(bytes / 1024).toFixed(2)} KB`
+    : `${(bytes / 1024 / 1024).toFixed(2)} MB`;
+}
+
 function createProgressBar(progress: number, total: number = 100): string {
   const barLength = 20;
   const filled = Math.round((progress / total) * barLength);
@@ -284,6 +635,12 @@ function normalizePath(path: string): string {
   return parts.join('/');
 }
 
+// The `pasta` option as typed ("docs/", "/docs", "docs//api") turned into a repository path
+function normalizeFolderInput(input: string | null): string {
+  const folder = input?.trim().replace(/^\/+/, '');
+  return folder ? normalizePath(folder) : '';
+}
+
 function findCommonPrefix(paths: string[]): string {
   if (paths.length === 0) return '';
   if (paths.length === 1) {
@@ -303,666 +660,3496 @@ function findCommonPrefix(paths: string[]): string {
   return i > 0 && first[0] === last[0] ? first.slice(0, i).join('/') + '/' : '';
 }
 
-async function uploadZipContentsToGitHub(
+function isValidBranchName(name: string): boolean {
+  if (!name || name.length > 200) return false;
+  if (name.startsWith('/') || name.endsWith('/') || name.endsWith('.') || name.endsWith('.lock')) return false;
+  if (name.includes('..') || name.includes('//') || name.includes('@{')) return false;
+  return !/[\x00-\x20~^:?*[\\\x7f]/.test(name);
+}
+
+interface TargetBranch {
+  branch: string;
+  defaultBranch: string;
+  exists: boolean;
+}
+
+// Read-only lookup, so previews can run before anything is written
+async function getTargetBranch(
   octokit: Octokit,
   owner: string,
   repo: string,
-  folderPath: string,
-  zipBuffer: Buffer,
-  authorTag: string,
-  progressCallback?: (current: number, total: number, fileName: string) => Promise<void>
-): Promise<{ totalFiles: number; uploadedFiles: number; failedFiles: string[] }> {
-  const MAX_UNCOMPRESSED_SIZE = 500 * 1024 * 1024; // 500MB uncompressed limit
-  const MAX_COMPRESSION_RATIO = 100; // Max 100:1 compression ratio
-  const MAX_FILES = 10000; // Max 10k files to prevent resource exhaustion
-  
-  const zip = new AdmZip(zipBuffer);
-  const allEntries = zip.getEntries();
-  
-  // ZIP bomb protection: check total uncompressed size and file count
-  let totalUncompressedSize = 0;
-  let fileCount = 0;
-  
-  for (const entry of allEntries) {
-    if (!entry.isDirectory) {
-      fileCount++;
-      totalUncompressedSize += entry.header.size;
-      
-      // Check compression ratio for individual files
-      const compressedSize = entry.header.compressedSize;
-      if (compressedSize > 0) {
-        const ratio = entry.header.size / compressedSize;
-        if (ratio > MAX_COMPRESSION_RATIO) {
-          throw new Error(
-            `ZIP bomb detected: file "${entry.entryName}" has suspicious compression ratio (${ratio.toFixed(1)}:1)`
-          );
-        }
-      }
-    }
+  branch: string | null
+): Promise<TargetBranch> {
+  const { data: repoInfo } = await octokit.repos.get({ owner, repo });
+  const defaultBranch = repoInfo.default_branch;
+
+  if (!branch || branch === defaultBranch) {
+    return { branch: defaultBranch, defaultBranch, exists: true };
   }
-  
-  if (fileCount > MAX_FILES) {
-    throw new Error(`ZIP contains too many files (${fileCount}). Maximum allowed: ${MAX_FILES}`);
+
+  if (!isValidBranchName(branch)) {
+    throw new Error(`Nome de branch inválido: ${branch}`);
   }
-  
-  if (totalUncompressedSize > MAX_UNCOMPRESSED_SIZE) {
-    const sizeMB = (totalUncompressedSize / 1024 / 1024).toFixed(2);
-    const maxMB = (MAX_UNCOMPRESSED_SIZE / 1024 / 1024).toFixed(0);
-    throw new Error(`ZIP bomb detected: total uncompressed size (${sizeMB}MB) exceeds limit (${maxMB}MB)`);
+
+  try {
+    await octokit.repos.getBranch({ owner, repo, branch });
+    return { branch, defaultBranch, exists: true };
+  } catch (error: any) {
+    if (error.status !== 404) throw error;
   }
-  
-  let zipEntries = allEntries.filter(entry => {
-    if (entry.isDirectory) return false;
-    
-    const name = entry.entryName.toLowerCase();
-    
-    if (name.startsWith('__macosx/') || name.includes('/__macosx/')) return false;
-    if (name.startsWith('.git/') || name.includes('/.git/')) return false;
-    if (name.startsWith('.ds_store') || name.includes('/.ds_store')) return false;
-    if (name === 'thumbs.db' || name.endsWith('/thumbs.db')) return false;
-    
-    return true;
+
+  return { branch, defaultBranch, exists: false };
+}
+
+async function createBranchFrom(
+  octokit: Octokit,
+  owner: string,
+  repo: string,
+  branch: string,
+  fromBranch: string
+): Promise<void> {
+  const { data: baseRef } = await octokit.git.getRef({ owner, repo, ref: `heads/${fromBranch}` });
+  await octokit.git.createRef({
+    owner,
+    repo,
+    ref: `refs/heads/${branch}`,
+    sha: baseRef.object.sha,
   });
+}
 
-  const commonPrefix = findCommonPrefix(zipEntries.map(e => e.entryName));
+async function deleteBranch(
+  octokit: Octokit,
+  owner: string,
+  repo: string,
+  branch: string
+): Promise<void> {
+  try {
+    await octokit.git.deleteRef({ owner, repo, ref: `heads/${branch}` });
+  } catch (error: any) {
+    console.warn(`⚠️  Não foi possível remover a branch ${branch}:`, sanitizeErrorMessage(error));
+  }
+}
 
-  const totalFiles = zipEntries.length;
-  let uploadedFiles = 0;
-  const failedFiles: string[] = [];
+function createUploadBranchName(zipName: string): string {
+  const slug = stripArchiveExtension(zipName)
+    .toLowerCase()
+    .replace(/[^a-z0-9._-]+/g, '-')
+    .replace(/^[-.]+|[-.]+$/g, '')
+    .substring(0, 40) || 'arquivos';
+  const timestamp = new Date().toISOString().replace(/[-:]/g, '').replace(/\..+$/, '').replace('T', '-');
+  return `upload/${slug}-${timestamp}`;
+}
 
-  await ensureRepoHasContent(octokit, owner, repo);
+function buildPullRequestBody(
+  zipName: string,
+  authorTag: string,
+  files: { filename: string; status: string }[],
+  truncated: boolean
+): string {
+  const MAX_LISTED = 100;
+  const sections: [string, string[]][] = [
+    ['➕ Adicionados', files.filter(f => f.status === 'added').map(f => f.filename)],
+    ['✏️ Modificados', files.filter(f => ['modified', 'changed', 'renamed', 'copied'].includes(f.status)).map(f => f.filename)],
+    ['🗑️ Removidos', files.filter(f => f.status === 'removed').map(f => f.filename)],
+  ];
 
-  const BATCH_SIZE = 5;
-  let lastProgressUpdate = Date.now();
-  const PROGRESS_THROTTLE_MS = 1000;
-  
-  for (let i = 0; i < zipEntries.length; i += BATCH_SIZE) {
-    const batch = zipEntries.slice(i, i + BATCH_SIZE);
-    
-    await Promise.all(
-      batch.map(async (entry) => {
-        try {
-          let fileName = entry.entryName;
-          
-          const pathSegments = fileName.split('/');
-          const hasTraversal = pathSegments.some(segment => segment === '..');
-          
-          if (hasTraversal || fileName.startsWith('/') || fileName.includes('\\')) {
-            console.warn(`⚠️  Ignorando arquivo com caminho suspeito: ${entry.entryName}`);
-            failedFiles.push(`${entry.entryName} (caminho suspeito)`);
-            return;
-          }
-          
-          if (commonPrefix && fileName.startsWith(commonPrefix)) {
-            fileName = fileName.substring(commonPrefix.length);
-          }
-          
-          fileName = normalizePath(fileName);
-          
-          if (!fileName) {
-            console.warn(`⚠️  Ignorando arquivo com caminho vazio após normalização: ${entry.entryName}`);
-            failedFiles.push(`${entry.entryName} (caminho vazio)`);
-            return;
-          }
-          
-          const fileContent = entry.getData();
-          const contentBase64 = fileContent.toString('base64');
-
-          const filepath = normalizePath(folderPath ? `${folderPath}/${fileName}` : fileName);
-
-          let sha: string | undefined;
-          try {
-            const { data: existingFile } = await octokit.repos.getContent({
-              owner,
-              repo,
-              path: filepath,
-            });
-
-            if (!Array.isArray(existingFile) && 'sha' in existingFile) {
-              sha = existingFile.sha;
-            }
-          } catch (error: any) {
-            if (error.status !== 404) throw error;
-          }
+  let body = `Upload do arquivo \`${zipName}\` enviado por **${authorTag}** pelo Discord.\n`;
 
-          await octokit.repos.createOrUpdateFileContents({
-            owner,
-            repo,
-            path: filepath,
-            message: `Upload: ${fileName} (enviado por ${authorTag})`,
-            content: contentBase64,
-            sha,
-          });
+  for (const [title, names] of sections) {
+    if (names.length === 0) continue;
 
-          uploadedFiles++;
-          
-          if (progressCallback) {
-            const now = Date.now();
-            if (now - lastProgressUpdate >= PROGRESS_THROTTLE_MS) {
-              await progressCallback(uploadedFiles, totalFiles, fileName);
-              lastProgressUpdate = now;
-            }
-          }
-        } catch (error: any) {
-          console.error(`❌ Erro ao fazer upload de ${entry.entryName}:`, error.message);
-          failedFiles.push(`${entry.entryName} (${error.message})`);
-        }
-      })
-    );
+    body += `\n### ${title} (${names.length})\n`;
+    body += names.slice(0, MAX_LISTED).map(name => `- \`${name}\``).join('\n') + '\n';
+    if (names.length > MAX_LISTED) {
+      body += `- … e mais ${names.length - MAX_LISTED} arquivo(s)\n`;
+    }
   }
 
-  if (progressCallback && totalFiles > 0 && uploadedFiles === totalFiles) {
-    await progressCallback(uploadedFiles, totalFiles, 'Concluído');
+  if (truncated) {
+    body += `\n> ⚠️ A lista de arquivos foi truncada pela API do GitHub.\n`;
   }
 
-  return { totalFiles, uploadedFiles, failedFiles };
+  return body;
 }
 
-async function handleZipUpload(
-  interaction: ChatInputCommandInteraction,
-  attachment: Attachment,
+async function openUploadPullRequest(
   octokit: Octokit,
-  githubUsername: string,
-  repoName: string,
-  folderPath: string = ''
-): Promise<void> {
-  const destinoDisplay = folderPath 
-    ? `${githubUsername}/${repoName}/${folderPath}` 
-    : `${githubUsername}/${repoName} (raiz)`;
+  owner: string,
+  repo: string,
+  baseBranch: string,
+  headBranch: string,
+  zipName: string,
+  authorTag: string
+): Promise<{ number: number; url: string }> {
+  const { data: comparison } = await octokit.repos.compareCommitsWithBasehead({
+    owner,
+    repo,
+    basehead: `${baseBranch}...${headBranch}`,
+  });
 
-  await interaction.editReply(
-    `📤 **Iniciando extração e upload...**\n\n` +
-    `📦 Arquivo ZIP: \`${attachment.name}\`\n` +
-    `📁 Destino: \`${destinoDisplay}\`\n\n` +
-    `🔄 Progresso:\n${createProgressBar(0)}\n` +
-    `⏳ Preparando...`
-  );
+  const files = comparison.files || [];
+  // The compare API lists at most 300 files
+  const truncated = files.length >= 300;
 
-  try {
-    await new Promise(resolve => setTimeout(resolve, 500));
-    
-    await interaction.editReply(
-      `📤 **Extraindo e enviando arquivos...**\n\n` +
-      `📦 Arquivo ZIP: \`${attachment.name}\`\n` +
-      `📁 Destino: \`${destinoDisplay}\`\n\n` +
-      `🔄 Progresso:\n${createProgressBar(10)}\n` +
-      `📥 Baixando arquivo ZIP...`
-    );
+  const { data: pullRequest } = await octokit.pulls.create({
+    owner,
+    repo,
+    base: baseBranch,
+    head: headBranch,
+    title: `Upload: ${zipName}`,
+    body: buildPullRequestBody(zipName, authorTag, files, truncated),
+  });
 
-    console.log(`📥 Baixando arquivo: ${attachment.name}`);
-    const fileContent = await downloadFile(attachment.url);
-    const fileSize = fileContent.length;
+  return { number: pullRequest.number, url: pullRequest.html_url };
+}
 
-    const fileSizeStr = fileSize < 1024 * 1024 
-      ? `${(fileSize / 1024).toFixed(2)} KB`
-      : `${(fileSize / 1024 / 1024).toFixed(2)} MB`;
+type GitTreeItem = {
+  path: string;
+  mode: BlobMode;
+  type: 'blob';
+  sha: string | null;
+};
 
-    await interaction.editReply(
-      `📤 **Extraindo e enviando arquivos...**\n\n` +
-      `📦 Arquivo ZIP: \`${attachment.name}\` (${fileSizeStr})\n` +
-      `📁 Destino: \`${destinoDisplay}\`\n\n` +
-      `🔄 Progresso:\n${createProgressBar(20)}\n` +
-      `📂 Extraindo conteúdo do ZIP...`
-    );
+interface UploadHooks {
+  // Blob SHAs already created on GitHub by an earlier attempt, by path
+  existingBlobs?: Map<string, string>;
+  onBatchUploaded?: (paths: string[]) => Promise<void>;
+  // Checked between batches; nothing is committed once it is aborted
+  signal?: AbortSignal;
+}
 
-    console.log(`📂 Extraindo conteúdo do ZIP e fazendo upload para GitHub...`);
-    
-    const uploadResult = await uploadZipContentsToGitHub(
-      octokit,
-      githubUsername,
-      repoName,
-      folderPath,
-      fileContent,
-      interaction.user.tag,
-      async (current, total, fileName) => {
-        const progress = 20 + Math.round((current / total) * 70);
-        await interaction.editReply(
-          `📤 **Enviando arquivos para o GitHub** ⚡\n\n` +
-          `📦 Arquivo ZIP: \`${attachment.name}\` (${fileSizeStr})\n` +
-          `📁 Destino: \`${destinoDisplay}\`\n\n` +
-          `📄 Enviando: \`${fileName}\`\n` +
-          `🔄 Progresso: ${current}/${total} arquivos\n${createProgressBar(progress)}\n` +
-          `⚡ Upload paralelo (5 arquivos por vez)...`
-        );
-      }
-    );
+interface UploadResult {
+  totalFiles: number;
+  uploadedFiles: number;
+  unchangedFiles: number;
+  deletedFiles: number;
+  failedFiles: string[];
+  commitSha: string | null;
+}
 
-    const locationDisplay = folderPath 
-      ? `\`${folderPath}\`` 
-      : '`/ (raiz)`';
+async function commitTreeToBranch(
+  octokit: Octokit,
+  owner: string,
+  repo: string,
+  branch: string,
+  treeItems: GitTreeItem[],
+  message: string
+): Promise<string> {
+  const MAX_ATTEMPTS = 3;
 
-    const githubLink = folderPath
-      ? `https://github.com/${githubUsername}/${repoName}/tree/main/${folderPath}`
-      : `https://github.com/${githubUsername}/${repoName}`;
+  for (let attempt = 1; ; attempt++) {
+    const { data: ref } = await octokit.git.getRef({ owner, repo, ref: `heads/${branch}` });
+    const parentSha = ref.object.sha;
+    const { data: parentCommit } = await octokit.git.getCommit({ owner, repo, commit_sha: parentSha });
 
-    let resultMessage = `✅ **Upload concluído!**\n\n` +
-      `📦 Arquivo ZIP: \`${attachment.name}\` (${fileSizeStr})\n` +
-      `📁 Repositório: \`${githubUsername}/${repoName}\`\n` +
-      `📂 Localização: ${locationDisplay}\n\n` +
-      `📊 Resultado:\n` +
-      `✅ Arquivos enviados: ${uploadResult.uploadedFiles}/${uploadResult.totalFiles}\n`;
+    const { data: tree } = await octokit.git.createTree({
+      owner,
+      repo,
+      base_tree: parentCommit.tree.sha,
+      tree: treeItems,
+    });
 
-    if (uploadResult.failedFiles.length > 0) {
-      resultMessage += `⚠️  Arquivos com erro: ${uploadResult.failedFiles.length}\n`;
-      if (uploadResult.failedFiles.length <= 5) {
-        resultMessage += `\n**Arquivos que falharam:**\n`;
-        uploadResult.failedFiles.forEach((file: string) => {
-          resultMessage += `• \`${file}\`\n`;
-        });
+    const { data: commit } = await octokit.git.createCommit({
+      owner,
+      repo,
+      message,
+      tree: tree.sha,
+      parents: [parentSha],
+    });
+
+    try {
+      // Non-forced update: GitHub rejects it if the branch moved since we read it
+      await octokit.git.updateRef({ owner, repo, ref: `heads/${branch}`, sha: commit.sha, force: false });
+      return commit.sha;
+    } catch (error: any) {
+      if (error.status === 422 && attempt < MAX_ATTEMPTS) {
+        console.warn(`⚠️  Branch ${branch} mudou durante o upload, recriando commit (tentativa ${attempt + 1})`);
+        continue;
       }
+      throw error;
     }
+  }
+}
 
-    resultMessage += `\n🔄 Progresso:\n${createProgressBar(100)}\n` +
-      `✅ Completo!\n\n` +
-      `🔗 **Ver no GitHub**: ${githubLink}`;
-
-    await interaction.editReply(resultMessage);
+interface ExtractedFile {
+  path: string;
+  entryName: string;
+  size: number;
+  blobSha: string;
+  // From the archive's Unix attributes; unset keeps the mode the file has in the repository
+  mode?: BlobMode;
+  // Content is loaded on demand so the whole archive never sits in memory
+  read(): Promise<Buffer>;
+  stream(): Readable;
+}
 
-    console.log(`✅ Upload concluído: ${uploadResult.uploadedFiles}/${uploadResult.totalFiles} arquivos`);
-  } catch (error: any) {
-    console.error('❌ Erro no upload:', error);
+interface ExtractedArchive {
+  totalFiles: number;
+  files: ExtractedFile[];
+  failedFiles: string[];
+  ignoredFiles: string[];
+  // Whether a repository path matches the same .gitignore/include/exclude rules, even if it is not in the archive
+  isIgnoredPath(path: string): boolean;
+}
 
-    let errorMessage = '\n\n';
+interface UploadFilters {
+  // Rules from the target repository's .gitignore, matched against full repository paths
+  repoIgnoreRules: IgnoreRule[];
+  // User patterns, matched against paths relative to the archive root
+  include: IgnoreRule[];
+  exclude: IgnoreRule[];
+}
 
-    if (error.message.includes('Not Found')) {
-      errorMessage += `⚠️  O repositório \`${githubUsername}/${repoName}\` não existe.\n\n`;
-      errorMessage += `📝 **Como criar o repositório:**\n`;
-      errorMessage += `1. Acesse: https://github.com/new\n`;
-      errorMessage += `2. Nome do repositório: \`${repoName}\`\n`;
-      errorMessage += `3. Clique em "Create repository"\n`;
-      errorMessage += `4. Tente enviar o arquivo novamente`;
-    } else {
-      errorMessage += `\`\`\`${error.message}\`\`\``;
-    }
+function computeGitBlobSha(content: Buffer): string {
+  // Same hash git uses for blob objects: sha1("blob <size>\0<content>")
+  return crypto
+    .createHash('sha1')
+    .update(`blob ${content.length}\0`)
+    .update(content)
+    .digest('hex');
+}
 
-    await interaction.editReply(
-      `❌ **Erro no upload!**\n\n` +
-      `📦 Arquivo: \`${attachment.name}\`\n\n` +
-      `🔄 Progresso:\n${createProgressBar(0)}\n` +
-      `❌ Falhou` +
-      errorMessage
-    );
+// Same hash without holding the content: the header only needs the size, known up front
+async function computeGitBlobShaFromStream(stream: Readable, size: number): Promise<string> {
+  const hash = crypto.createHash('sha1').update(`blob ${size}\0`);
+  let length = 0;
+  for await (const chunk of stream) {
+    hash.update(chunk);
+    length += chunk.length;
   }
+  if (length !== size) {
+    throw new Error(`Entry size mismatch: expected ${size} bytes, got ${length}`);
+  }
+  return hash.digest('hex');
 }
 
-// Registrar comandos slash
-async function registerCommands(clientId: string, token: string): Promise<void> {
-  const commands = [
-    new SlashCommandBuilder()
-      .setName('login')
-      .setDescription('Fazer login com seu token GitHub')
-      .addStringOption(option =>
-        option.setName('token')
-          .setDescription('Seu Personal Access Token do GitHub')
-          .setRequired(true)
-      ),
-    
-    new SlashCommandBuilder()
-      .setName('logout')
-      .setDescription('Fazer logout e remover seu token'),
-    
-    new SlashCommandBuilder()
-      .setName('whoami')
-      .setDescription('Ver informações da sua conta GitHub'),
+function createExtractedFile(path: string, entryName: string, content: Buffer, mode?: BlobMode): ExtractedFile {
+  return {
+    path,
+    entryName,
+    size: content.length,
+    blobSha: computeGitBlobSha(content),
+    ...(mode && { mode }),
+    read: async () => content,
+    stream: () => Readable.from([content]),
+  };
+}
+
+function getEntryMode(entry: ArchiveEntry): BlobMode | undefined {
+  if (entry.unixMode === undefined) return undefined;
+  if (isSymlinkMode(entry.unixMode)) return '120000';
+  return isExecutableMode(entry.unixMode) ? '100755' : '100644';
+}
+
+async function extractArchiveFiles(
+  archive: Archive,
+  folderPath: string,
+  filters: UploadFilters
+): Promise<ExtractedArchive> {
+  const EXTRACT_CONCURRENCY = 4; // Entries hashed at the same time
+
+  let archiveEntries = archive.entries.filter(entry => {
+    if (entry.isDirectory) return false;
     
-    new SlashCommandBuilder()
-      .setName('repos')
-      .setDescription('Listar seus repositórios do GitHub (10 mais recentes)'),
+    const name = entry.name.toLowerCase();
     
-    new SlashCommandBuilder()
-      .setName('upload')
-      .setDescription('Fazer upload de arquivo ZIP para seu repositório GitHub')
-      .addStringOption(option =>
-        option.setName('repositorio')
-          .setDescription('Nome do repositório (ex: meu-projeto)')
-          .setRequired(true)
-      )
-      .addAttachmentOption(option =>
-        option.setName('arquivo')
-          .setDescription('Arquivo ZIP para upload')
-          .setRequired(true)
-      )
-      .addStringOption(option =>
-        option.setName('pasta')
-          .setDescription('Pasta de destino (opcional, deixe vazio para raiz)')
-          .setRequired(false)
-      ),
+    if (name.startsWith('__macosx/') || name.includes('/__macosx/')) return false;
+    if (name.startsWith('.git/') || name.includes('/.git/')) return false;
+    if (name.startsWith('.ds_store') || name.includes('/.ds_store')) return false;
+    if (name === 'thumbs.db' || name.endsWith('/thumbs.db')) return false;
     
-    new SlashCommandBuilder()
-      .setName('help')
-      .setDescription('Mostra ajuda e comandos disponíveis'),
-  ].map(command => command.toJSON());
+    return true;
+  });
 
-  const rest = new REST({ version: '10' }).setToken(token);
+  const commonPrefix = findCommonPrefix(archiveEntries.map(e => e.name));
+  const candidates: { entry: ArchiveEntry; fileName: string; path: string }[] = [];
+  const files: ExtractedFile[] = [];
+  const failedFiles: string[] = [];
+  const ignoredFiles: string[] = [];
 
-  try {
-    console.log('🔄 Registrando slash commands...');
-    
-    await rest.put(
-      Routes.applicationCommands(clientId),
-      { body: commands },
+  for (const entry of archiveEntries) {
+    try {
+      let fileName = entry.name;
+      
+      const pathSegments = fileName.split('/');
+      const hasTraversal = pathSegments.some(segment => segment === '..');
+      
+      if (hasTraversal || fileName.startsWith('/') || fileName.includes('\\')) {
+        console.warn(`⚠️  Ignorando arquivo com caminho suspeito: ${entry.name}`);
+        failedFiles.push(`${entry.name} (caminho suspeito)`);
+        continue;
+      }
+      
+      if (commonPrefix && fileName.startsWith(commonPrefix)) {
+        fileName = fileName.substring(commonPrefix.length);
+      }
+      
+      fileName = normalizePath(fileName);
+      
+      if (!fileName) {
+        console.warn(`⚠️  Ignorando arquivo com caminho vazio após normalização: ${entry.name}`);
+        failedFiles.push(`${entry.name} (caminho vazio)`);
+        continue;
+      }
+
+      candidates.push({
+        entry,
+        fileName,
+        path: normalizePath(folderPath ? `${folderPath}/${fileName}` : fileName),
+      });
+    } catch (error: any) {
+      console.error(`❌ Erro ao extrair ${entry.name}:`, error.message);
+      failedFiles.push(`${entry.name} (${error.message})`);
+    }
+  }
+
+  // .gitignore files shipped inside the archive, shallowest first so deeper ones take precedence
+  const archiveIgnoreRules: IgnoreRule[] = [];
+  const gitignoreFiles = candidates
+    .filter(c => c.fileName === '.gitignore' || c.fileName.endsWith('/.gitignore'))
+    .sort((a, b) => a.fileName.split('/').length - b.fileName.split('/').length);
+
+  for (const gitignore of gitignoreFiles) {
+    const content = (await gitignore.entry.getData()).toString('utf-8');
+    const base = gitignore.fileName.includes('/') ? gitignore.fileName.substring(0, gitignore.fileName.lastIndexOf('/')) : '';
+    archiveIgnoreRules.push(...parseGitignore(content, base));
+  }
+
+  // fileName is relative to the archive root, path to the repository root
+  const isFilteredOut = (fileName: string, path: string) =>
+    isIgnored(archiveIgnoreRules, fileName) ||
+    isIgnored(filters.repoIgnoreRules, path) ||
+    isIgnored(filters.exclude, fileName) ||
+    (filters.include.length > 0 && !isIgnored(filters.include, fileName));
+
+  const included = candidates.filter(({ fileName, path }) => {
+    const excluded = isFilteredOut(fileName, path);
+    if (excluded) ignoredFiles.push(path);
+    return !excluded;
+  });
+
+  const folderPrefix = folderPath ? `${normalizePath(folderPath)}/` : '';
+  const isIgnoredPath = (path: string) =>
+    path.startsWith(folderPrefix) && isFilteredOut(path.substring(folderPrefix.length), path);
+
+  // Each entry is streamed once to compute its blob SHA, so large ones never sit in memory
+  for (let i = 0; i < included.length; i += EXTRACT_CONCURRENCY) {
+    await Promise.all(
+      included.slice(i, i + EXTRACT_CONCURRENCY).map(async ({ entry, path }) => {
+        try {
+          const blobSha = await computeGitBlobShaFromStream(entry.createReadStream(), entry.size);
+
+          const mode = getEntryMode(entry);
+          files.push({
+            path,
+            entryName: entry.name,
+            size: entry.size,
+            blobSha,
+            ...(mode && { mode }),
+            read: () => entry.getData(),
+            stream: () => entry.createReadStream(),
+          });
+        } catch (error: any) {
+          console.error(`❌ Erro ao extrair ${entry.name}:`, error.message);
+          failedFiles.push(`${entry.name} (${error.message})`);
+        }
+      })
     );
+  }
 
-    console.log('✅ Slash commands registrados com sucesso!');
-  } catch (error) {
-    console.error('❌ Erro ao registrar slash commands:', error);
+  return { totalFiles: archiveEntries.length - ignoredFiles.length, files, failedFiles, ignoredFiles, isIgnoredPath };
+}
+
+async function fetchRepoIgnoreRules(
+  octokit: Octokit,
+  owner: string,
+  repo: string,
+  branch: string,
+  folderPath: string
+): Promise<IgnoreRule[]> {
+  const rules: IgnoreRule[] = [];
+  const folder = folderPath ? normalizePath(folderPath) : '';
+  const locations = folder ? ['', folder] : [''];
+
+  for (const base of locations) {
+    try {
+      const { data } = await octokit.repos.getContent({
+        owner,
+        repo,
+        path: base ? `${base}/.gitignore` : '.gitignore',
+        ref: branch,
+      });
+
+      if (!Array.isArray(data) && data.type === 'file' && 'content' in data) {
+        rules.push(...parseGitignore(Buffer.from(data.content, 'base64').toString('utf-8'), base));
+      }
+    } catch (error: any) {
+      // 404: no .gitignore there, 409: empty repository
+      if (error.status !== 404 && error.status !== 409) throw error;
+    }
   }
+
+  return rules;
 }
 
-// Rate limiting
-interface RateLimitEntry {
-  lastCommand: number;
-  commandCount: number;
-  resetTime: number;
+interface LargeFileResult {
+  // Files to commit, with LFS pointers in place of large content
+  files: ExtractedFile[];
+  lfsObjects: LfsObject[];
+  rejected: ExtractedFile[];
 }
 
-const rateLimitMap = new Map<string, RateLimitEntry>();
-const RATE_LIMIT_WINDOW = 60000; // 1 minute window
-const MAX_COMMANDS_PER_WINDOW = 10; // Max 10 commands per minute
-const COOLDOWN_BETWEEN_COMMANDS = 2000; // 2 seconds between commands
+async function applyLargeFilePolicy(
+  octokit: Octokit,
+  owner: string,
+  repo: string,
+  branch: string | null,
+  folderPath: string,
+  files: ExtractedFile[],
+  settings: GuildSettings
+): Promise<LargeFileResult> {
+  const limit = settings.maxFileSizeMB * 1024 * 1024;
+  const large = files.filter(file => file.size > limit);
 
-function checkRateLimit(userId: string): { allowed: boolean; retryAfter?: number } {
-  const now = Date.now();
-  const entry = rateLimitMap.get(userId);
-  
-  if (!entry) {
-    rateLimitMap.set(userId, {
-      lastCommand: now,
-      commandCount: 1,
-      resetTime: now + RATE_LIMIT_WINDOW
-    });
-    return { allowed: true };
+  if (large.length === 0) {
+    return { files, lfsObjects: [], rejected: [] };
   }
-  
-  // Reset counter if window expired
-  if (now > entry.resetTime) {
-    entry.commandCount = 1;
-    entry.resetTime = now + RATE_LIMIT_WINDOW;
-    entry.lastCommand = now;
-    return { allowed: true };
+
+  if (settings.largeFilePolicy === 'rejeitar') {
+    return { files, lfsObjects: [], rejected: large };
   }
-  
-  // Check cooldown between commands
-  const timeSinceLastCommand = now - entry.lastCommand;
-  if (timeSinceLastCommand < COOLDOWN_BETWEEN_COMMANDS) {
-    return { 
-      allowed: false, 
-      retryAfter: Math.ceil((COOLDOWN_BETWEEN_COMMANDS - timeSinceLastCommand) / 1000)
-    };
+
+  const lfsObjects: LfsObject[] = [];
+  const result: ExtractedFile[] = [];
+
+  for (const file of files) {
+    if (file.size <= limit) {
+      result.push(file);
+      continue;
+    }
+
+    const object = await createLfsObjectFromStream(file.stream(), file.stream);
+    lfsObjects.push(object);
+    result.push(createExtractedFile(file.path, file.entryName, createLfsPointer(object), file.mode));
   }
-  
-  // Check if exceeded max commands in window
-  if (entry.commandCount >= MAX_COMMANDS_PER_WINDOW) {
-    const retryAfter = Math.ceil((entry.resetTime - now) / 1000);
-    return { allowed: false, retryAfter };
+
+  // Kept inside the upload folder, where the comparison with the repository sees it
+  const folder = folderPath ? normalizePath(folderPath) : '';
+  const attributesPath = folder ? `${folder}/.gitattributes` : '.gitattributes';
+
+  // Merge with the .gitattributes being uploaded, or the one already in the repository
+  const uploadedAttributes = result.find(file => file.path === attributesPath);
+  let existing = uploadedAttributes ? (await uploadedAttributes.read()).toString('utf-8') : '';
+
+  if (!uploadedAttributes && branch) {
+    try {
+      const { data } = await octokit.repos.getContent({ owner, repo, path: attributesPath, ref: branch });
+      if (!Array.isArray(data) && data.type === 'file' && 'content' in data) {
+        existing = Buffer.from(data.content, 'base64').toString('utf-8');
+      }
+    } catch (error: any) {
+      if (error.status !== 404 && error.status !== 409) throw error;
+    }
   }
-  
-  // Allow command and increment counter
-  entry.commandCount++;
-  entry.lastCommand = now;
-  return { allowed: true };
-}
 
-// Clean up old rate limit entries periodically
-setInterval(() => {
-  const now = Date.now();
-  for (const [userId, entry] of rateLimitMap.entries()) {
-    if (now > entry.resetTime + RATE_LIMIT_WINDOW) {
-      rateLimitMap.delete(userId);
+  // Patterns in a folder's .gitattributes are relative to that folder
+  const attributes = addLfsAttributes(
+    existing,
+    large.map(file => folder ? file.path.substring(folder.length + 1) : file.path)
+  );
+
+  if (attributes !== existing) {
+    const attributesFile = createExtractedFile(attributesPath, '.gitattributes', Buffer.from(attributes));
+
+    if (uploadedAttributes) {
+      result[result.indexOf(uploadedAttributes)] = attributesFile;
+    } else {
+      result.push(attributesFile);
     }
   }
-}, 300000); // Clean up every 5 minutes
 
-function sanitizeErrorMessage(error: any): string {
-  if (!error) return 'Unknown error';
-  
-  let message = error.message || String(error);
-  
-  // Remove potential tokens (GitHub tokens start with ghp_, gho_, ghs_, etc.)
-  message = message.replace(/gh[ps]_[a-zA-Z0-9]{36,}/g, '[REDACTED_TOKEN]');
-  
-  // Remove Discord bot tokens
-  message = message.replace(/[A-Za-z0-9_-]{24}\.[A-Za-z0-9_-]{6}\.[A-Za-z0-9_-]{27,}/g, '[REDACTED_TOKEN]');
-  
-  // Remove encryption secrets or keys
-  message = message.replace(/secret[=:]\s*[^\s]+/gi, 'secret=[REDACTED]');
-  message = message.replace(/key[=:]\s*[^\s]+/gi, 'key=[REDACTED]');
-  message = message.replace(/password[=:]\s*[^\s]+/gi, 'password=[REDACTED]');
-  
-  // Remove file paths that might contain sensitive info
-  message = message.replace(/\/home\/[^\s]+/g, '[PATH]');
-  message = message.replace(/C:\\Users\\[^\s]+/g, '[PATH]');
-  
-  // Limit message length
-  if (message.length > 500) {
-    message = message.substring(0, 500) + '... [truncated]';
+  return { files: result, lfsObjects, rejected: [] };
+}
+
+function formatLargeFileReport(rejected: ExtractedFile[], settings: GuildSettings): string {
+  const MAX_LISTED = 10;
+
+  let message = `❌ **Arquivos acima do limite de ${settings.maxFileSizeMB} MB**\n\n` +
+    rejected
+      .slice(0, MAX_LISTED)
+      .map(file => `• \`${file.path}\` (${formatSize(file.size)})`)
+      .join('\n') + '\n';
+
+  if (rejected.length > MAX_LISTED) {
+    message += `… e mais ${rejected.length - MAX_LISTED} arquivo(s)\n`;
   }
-  
-  return message;
+
+  return message + `\nNenhuma alteração foi feita.\n\n` +
+    `💡 Remova esses arquivos, use a opção \`excluir\`, ou peça a um administrador do servidor ` +
+    `para ativar o Git LFS com \`/configurar arquivos_grandes: lfs\``;
 }
 
-function validateEnvironment(): void {
-  const errors: string[] = [];
-  
-  // Required variables
-  if (!process.env.DISCORD_BOT_TOKEN) {
-    errors.push('DISCORD_BOT_TOKEN is required');
+interface RemoteTree {
+  files: Map<string, TreeBlob>;
+  truncated: boolean;
+}
+
+function getUploadMode(file: ExtractedFile, remote: RemoteTree): BlobMode {
+  return file.mode ?? remote.files.get(file.path)?.mode ?? '100644';
+}
+
+function isUnchanged(file: ExtractedFile, remote: RemoteTree): boolean {
+  const remoteBlob = remote.files.get(file.path);
+  return remoteBlob?.sha === file.blobSha && remoteBlob.mode === getUploadMode(file, remote);
+}
+
+async function fetchRemoteFiles(
+  octokit: Octokit,
+  owner: string,
+  repo: string,
+  branch: string,
+  folderPath: string
+): Promise<RemoteTree> {
+  const files = new Map<string, TreeBlob>();
+  const prefix = folderPath ? `${folderPath}/` : '';
+
+  let treeSha: string;
+  try {
+    const { data: ref } = await octokit.git.getRef({ owner, repo, ref: `heads/${branch}` });
+    const { data: commit } = await octokit.git.getCommit({ owner, repo, commit_sha: ref.object.sha });
+    treeSha = commit.tree.sha;
+  } catch (error: any) {
+    // 409: repository is empty, 404: branch has no commits yet
+    if (error.status === 409 || error.status === 404) {
+      return { files, truncated: false };
+    }
+    throw error;
   }
-  
-  if (!process.env.ENCRYPTION_SECRET) {
-    errors.push('ENCRYPTION_SECRET is required');
-  } else if (process.env.ENCRYPTION_SECRET.length < 32) {
-    errors.push('ENCRYPTION_SECRET must be at least 32 characters long');
+
+  const { data: tree } = await octokit.git.getTree({ owner, repo, tree_sha: treeSha, recursive: 'true' });
+
+  for (const item of tree.tree) {
+    if (item.type === 'blob' && item.path && item.sha && item.path.startsWith(prefix)) {
+      files.set(item.path, { sha: item.sha, mode: item.mode as BlobMode });
+    }
   }
-  
-  if (errors.length > 0) {
-    console.error('❌ Environment validation failed:');
-    errors.forEach(error => console.error(`   - ${error}`));
-    console.error('\n📝 Required environment variables:');
-    console.error('   - DISCORD_BOT_TOKEN: Your Discord bot token');
-    console.error('   - ENCRYPTION_SECRET: Strong secret key (min 32 chars) for token encryption');
-    throw new Error('Missing or invalid required environment variables');
+
+  if (tree.truncated) {
+    console.warn(`⚠️  Listagem de ${owner}/${repo}@${branch} truncada pela API do GitHub`);
   }
-  
-  console.log('✅ Environment variables validated');
+
+  return { files, truncated: tree.truncated };
 }
 
-async function startBot(): Promise<void> {
-  console.log('🤖 Iniciando bot do Discord com Slash Commands...');
+async function folderExists(
+  octokit: Octokit,
+  owner: string,
+  repo: string,
+  branch: string,
+  folderPath: string
+): Promise<boolean> {
+  try {
+    const { data } = await octokit.repos.getContent({ owner, repo, path: folderPath, ref: branch });
+    return Array.isArray(data);
+  } catch (error: any) {
+    // 404: no such folder, 409: empty repository
+    if (error.status === 404 || error.status === 409) return false;
+    throw error;
+  }
+}
 
-  // Validate environment before doing anything else
-  validateEnvironment();
-  
-  // Initialize encryption with unique salt
-  await initEncryption();
+interface UploadPlan {
+  added: string[];
+  modified: string[];
+  unchanged: string[];
+  deleted: string[];
+  truncated: boolean;
+}
 
-  const token = process.env.DISCORD_BOT_TOKEN!;
+function planUpload(files: ExtractedFile[], remote: RemoteTree): UploadPlan {
+  const plan: UploadPlan = { added: [], modified: [], unchanged: [], deleted: [], truncated: remote.truncated };
+  const zipPaths = new Set<string>();
 
-  const client = createDiscordClient();
+  for (const file of files) {
+    zipPaths.add(file.path);
 
-  const isReplit = process.env.REPLIT_CONNECTORS_HOSTNAME && 
-                   (process.env.REPL_IDENTITY || process.env.WEB_REPL_RENEWAL);
+    if (!remote.files.has(file.path)) {
+      plan.added.push(file.path);
+    } else if (!isUnchanged(file, remote)) {
+      plan.modified.push(file.path);
+    } else {
+      plan.unchanged.push(file.path);
+    }
+  }
 
-  if (isReplit) {
-    try {
-      const octokit = await getGitHubClient();
-      const { data: user } = await octokit.users.getAuthenticated();
-      const githubUsername = user.login;
-      console.log(`✅ Conectado ao GitHub como: ${githubUsername}`);
-    } catch (error) {
-      console.log('⚠️  Integração GitHub do Replit não disponível');
-      console.log('✅ Modo: Autenticação individual por usuário');
+  for (const remotePath of remote.files.keys()) {
+    if (!zipPaths.has(remotePath)) {
+      plan.deleted.push(remotePath);
     }
-  } else {
-    console.log('✅ Modo: Autenticação individual por usuário');
   }
 
-  client.once('ready', async () => {
-    console.log(`✅ Bot conectado como ${client.user?.tag}`);
-    
-    if (client.user) {
-      await registerCommands(client.user.id, token);
+  return plan;
+}
+
+function formatUploadPlan(plan: UploadPlan, mirror: boolean): string {
+  const MAX_LISTED = 10;
+  const sections: [string, string[]][] = [
+    ['🆕 Novos', plan.added],
+    ['✏️ Modificados', plan.modified],
+    ['⏸️ Sem alteração', plan.unchanged],
+    [mirror ? '🗑️ Serão removidos (modo espelho)' : '🗑️ Não estão no ZIP (permanecem no repositório)', plan.deleted],
+  ];
+
+  let message = '';
+  for (const [title, paths] of sections) {
+    message += `${title}: **${paths.length}**\n`;
+    if (paths.length === 0 || title.startsWith('⏸️')) continue;
+
+    message += paths.slice(0, MAX_LISTED).map(p => `• \`${p}\``).join('\n') + '\n';
+    if (paths.length > MAX_LISTED) {
+      message += `• … e mais ${paths.length - MAX_LISTED}\n`;
     }
+  }
+
+  if (plan.truncated) {
+    message += `\n⚠️ O repositório é grande demais para listar por completo; a comparação pode estar incompleta.\n`;
+  }
+
+  return message;
+}
+
+async function awaitConfirmation(
+  interaction: ChatInputCommandInteraction,
+  content: string,
+  confirmLabel: string
+): Promise<boolean> {
+  const CONFIRMATION_TIMEOUT = 120000; // 2 minutes to decide
+
+  const row = new ActionRowBuilder<ButtonBuilder>().addComponents(
+    new ButtonBuilder()
+      .setCustomId('confirmar')
+      .setLabel(confirmLabel)
+      .setStyle(ButtonStyle.Success),
+    new ButtonBuilder()
+      .setCustomId('cancelar')
+      .setLabel('Cancelar')
+      .setStyle(ButtonStyle.Secondary),
+  );
+
+  const message = await interaction.editReply({ content, components: [row] });
+
+  try {
+    const button = await message.awaitMessageComponent({
+      componentType: ComponentType.Button,
+      filter: (i) => i.user.id === interaction.user.id,
+      time: CONFIRMATION_TIMEOUT,
+    });
+    await button.update({ components: [] });
+    return button.customId === 'confirmar';
+  } catch {
+    // Timed out without an answer
+    await interaction.editReply({ components: [] });
+    return false;
+  }
+}
+
+async function confirmSecretFindings(
+  interaction: ChatInputCommandInteraction,
+  files: ExtractedFile[]
+): Promise<boolean> {
+  const findings = await scanFilesForSecrets(files);
+  if (findings.length === 0) return true;
+
+  const message = `🔐 **Possíveis segredos encontrados**\n\n` +
+    formatSecretFindings(findings) +
+    `\nCredenciais enviadas ao GitHub ficam no histórico mesmo depois de apagadas.\n` +
+    `Remova-as do arquivo ou confirme que podem ser publicadas.`;
+
+  const confirmed = await awaitConfirmation(interaction, message, 'Enviar mesmo assim');
+  if (!confirmed) {
+    await interaction.editReply(message + `\n\n🚫 **Upload bloqueado.** Nenhuma alteração foi feita.`);
+    return false;
+  }
+
+  console.warn(`⚠️  ${interaction.user.tag} confirmou envio com ${findings.length} possível(is) segredo(s)`);
+  return true;
+}
+
+async function uploadZipContentsToGitHub(
+  octokit: Octokit,
+  owner: string,
+  repo: string,
+  branch: string,
+  extracted: ExtractedArchive,
+  remote: RemoteTree,
+  mirror: boolean,
+  zipName: string,
+  authorTag: string,
+  progressCallback?: (current: number, total: number, fileName: string) => Promise<void>,
+  hooks: UploadHooks = {}
+): Promise<UploadResult> {
+  const { totalFiles } = extracted;
+  let uploadedFiles = 0;
+  const failedFiles: string[] = [...extracted.failedFiles];
+  const treeItems: GitTreeItem[] = [];
+
+  // Entries whose blob SHA and mode already match the branch are left out of the commit
+  const files = extracted.files.filter(file => !isUnchanged(file, remote));
+  const unchangedFiles = extracted.files.length - files.length;
+  // In mirror mode, files missing from the ZIP are removed from the destination folder
+  const deletedPaths = mirror ? planUpload(extracted.files, remote).deleted : [];
+
+  const BATCH_SIZE = 5;
+  let lastProgressUpdate = Date.now();
+  const PROGRESS_THROTTLE_MS = 1000;
+  
+  // Blobs are created first and only referenced by the final commit, so any
+  // failure before the ref update leaves the branch untouched
+  for (let i = 0; i < files.length; i += BATCH_SIZE) {
+    hooks.signal?.throwIfAborted();
+    const batch = files.slice(i, i + BATCH_SIZE);
     
-    console.log('📨 Aguardando comandos slash...');
-    console.log('\n💡 Comandos disponíveis (use / no Discord):');
-    console.log('   /login - Fazer login com token GitHub');
-    console.log('   /logout - Fazer logout');
-    console.log('   /whoami - Ver informações da conta');
-    console.log('   /repos - Listar repositórios');
-    console.log('   /upload - Upload de arquivo ZIP');
-    console.log('   /help - Mostra ajuda completa');
-    console.log(`\n🔐 Modo: Autenticação individual por usuário`);
-    console.log(`📝 Cada usuário deve usar /login com seu próprio token GitHub\n`);
-  });
+    await Promise.all(
+      batch.map(async (file) => {
+        let blobSha = file.blobSha;
 
-  client.on('interactionCreate', async (interaction) => {
-    if (!interaction.isChatInputCommand()) return;
+        // Blobs are content-addressed, so one created by an interrupted run can be reused as is
+        if (hooks.existingBlobs?.get(file.path) !== file.blobSha) {
+          const { data: blob } = await octokit.git.createBlob({
+            owner,
+            repo,
+            content: (await file.read()).toString('base64'),
+            encoding: 'base64',
+          });
+          blobSha = blob.sha;
+        }
 
-    // Check rate limit
-    const rateLimit = checkRateLimit(interaction.user.id);
-    if (!rateLimit.allowed) {
-      await interaction.reply({
-        content: `⏱️ **Rate limit excedido!**\n\nVocê está enviando comandos muito rápido.\nTente novamente em ${rateLimit.retryAfter} segundo(s).`,
-        ephemeral: true
-      });
-      return;
+        treeItems.push({ path: file.path, mode: getUploadMode(file, remote), type: 'blob', sha: blobSha });
+        uploadedFiles++;
+        
+        if (progressCallback) {
+          const now = Date.now();
+          if (now - lastProgressUpdate >= PROGRESS_THROTTLE_MS) {
+            await progressCallback(uploadedFiles, files.length, file.path);
+            lastProgressUpdate = now;
+          }
+        }
+      })
+    );
+
+    if (hooks.onBatchUploaded) {
+      await hooks.onBatchUploaded(batch.map(file => file.path));
     }
+  }
 
-    try {
-      switch (interaction.commandName) {
-        case 'login':
-          await handleLoginCommand(interaction);
-          break;
-        case 'logout':
-          await handleLogoutCommand(interaction);
-          break;
-        case 'whoami':
-          await handleWhoAmICommand(interaction);
-          break;
-        case 'repos':
-          await handleReposCommand(interaction);
-          break;
-        case 'upload':
-          await handleUploadCommand(interaction);
-          break;
-        case 'help':
-          await handleHelpCommand(interaction);
-          break;
-      }
-    } catch (error: any) {
-      console.error('❌ Erro ao processar comando:', sanitizeErrorMessage(error));
-      const sanitizedMessage = sanitizeErrorMessage(error);
-      const errorMessage = `❌ **Erro ao processar comando**\n\n\`\`\`${sanitizedMessage}\`\`\``;
-      
+  for (const path of deletedPaths) {
+    treeItems.push({ path, mode: '100644', type: 'blob', sha: null });
+  }
+
+  const deletedFiles = deletedPaths.length;
+
+  if (treeItems.length === 0) {
+    return { totalFiles, uploadedFiles, unchangedFiles, deletedFiles, failedFiles, commitSha: null };
+  }
+
+  const commitMessage = deletedFiles > 0
+    ? `Upload: ${zipName} (${uploadedFiles} arquivo(s), ${deletedFiles} removido(s), enviado por ${authorTag})`
+    : `Upload: ${zipName} (${uploadedFiles} arquivo(s), enviado por ${authorTag})`;
+  // Last point where cancelling still leaves the branch untouched
+  hooks.signal?.throwIfAborted();
+  const commitSha = await commitTreeToBranch(octokit, owner, repo, branch, treeItems, commitMessage);
+
+  console.log(`📝 Commit ${commitSha.substring(0, 7)} criado em ${owner}/${repo}@${branch}`);
+
+  if (progressCallback && files.length > 0 && uploadedFiles === files.length) {
+    await progressCallback(uploadedFiles, files.length, 'Concluído');
+  }
+
+  return { totalFiles, uploadedFiles, unchangedFiles, deletedFiles, failedFiles, commitSha };
+}
+
+const CANCEL_UPLOAD_PREFIX = 'cancelar-upload:';
+
+interface UploadReporter {
+  // Progress updates are best effort and may be dropped
+  update(content: string): Promise<void>;
+  // Final result, delivered by DM when the original reply can no longer be edited
+  finish(content: string): Promise<void>;
+}
+
+function createUploadReporter(client: Client, job: UploadJob): UploadReporter {
+  const INTERACTION_TOKEN_LIFETIME = 14 * 60 * 1000; // Discord allows 15 minutes, keep a margin
+  const webhook = new WebhookClient({ id: job.applicationId, token: job.interactionToken });
+  const canEditReply = () => Date.now() - Date.parse(job.createdAt) < INTERACTION_TOKEN_LIFETIME;
+
+  // Progress messages carry a cancel button, handled in interactionCreate
+  const cancelRow = new ActionRowBuilder<ButtonBuilder>().addComponents(
+    new ButtonBuilder()
+      .setCustomId(`${CANCEL_UPLOAD_PREFIX}${job.id}`)
+      .setLabel('Cancelar upload')
+      .setStyle(ButtonStyle.Danger),
+  );
+
+  return {
+    async update(content) {
+      if (!canEditReply()) return;
       try {
-        if (interaction.deferred || interaction.replied) {
-          await interaction.editReply(errorMessage);
-        } else {
-          await interaction.reply({ content: errorMessage, ephemeral: true });
+        await webhook.editMessage('@original', { content, components: [cancelRow] });
+      } catch (error: any) {
+        console.warn(`⚠️  Não foi possível atualizar o progresso do upload ${job.id}:`, error.message);
+      }
+    },
+    async finish(content) {
+      if (canEditReply()) {
+        try {
+          await webhook.editMessage('@original', { content, components: [] });
+          return;
+        } catch {
+          // Falls back to a DM below
         }
-      } catch (replyError) {
-        console.error('❌ Erro ao enviar mensagem de erro:', sanitizeErrorMessage(replyError));
       }
-    }
-  });
 
-  client.on('error', (error: Error) => {
-    console.error('❌ Erro no Discord:', sanitizeErrorMessage(error));
+      try {
+        const user = await client.users.fetch(job.userId);
+        await user.send(content);
+      } catch (error: any) {
+        console.warn(`⚠️  Não foi possível avisar ${job.userTag} sobre o upload ${job.id}:`, error.message);
+      }
+    },
+  };
+}
+
+// History is an audit log; failing to write it must not fail the upload itself
+async function saveUploadHistory(entry: NewUploadHistoryEntry): Promise<void> {
+  try {
+    await recordUpload(entry);
+  } catch (error: any) {
+    console.error('❌ Erro ao salvar histórico de upload:', sanitizeErrorMessage(error));
+  }
+}
+
+async function rollbackUploadJob(octokit: Octokit, job: UploadJob): Promise<void> {
+  // Once the commit exists there is nothing left to undo automatically
+  if (job.commitSha) return;
+
+  for (const branch of job.createdBranches) {
+    await deleteBranch(octokit, job.owner, job.repo, branch);
+  }
+}
+
+async function handleZipUpload(
+  interaction: ChatInputCommandInteraction,
+  attachment: Attachment,
+  octokit: Octokit,
+  owner: string,
+  repoName: string,
+  options: ZipUploadOptions,
+  installationId: number | null = null
+): Promise<void> {
+  const job = await createUploadJob({
+    userId: interaction.user.id,
+    userTag: interaction.user.tag,
+    guildId: interaction.guildId,
+    applicationId: interaction.applicationId,
+    interactionToken: interaction.token,
+    attachment: { name: attachment.name, url: attachment.url },
+    owner,
+    repo: repoName,
+    installationId,
+    options,
   });
 
-  console.log('🔌 Conectando ao Discord...');
-  await client.login(token);
+  await runUploadJob(job, octokit, createUploadReporter(interaction.client, job), interaction);
 }
 
-// Handlers de comandos slash
-async function handleLoginCommand(interaction: ChatInputCommandInteraction): Promise<void> {
-  const token = interaction.options.getString('token', true);
-  
-  await interaction.deferReply({ ephemeral: true });
+async function runUploadJob(
+  job: UploadJob,
+  octokit: Octokit,
+  reporter: UploadReporter,
+  interaction: ChatInputCommandInteraction | null
+): Promise<void> {
+  // Running again would find every file unchanged and lose track of the commit
+  if (job.commitSha) {
+    await finishCommittedUploadJob(job, octokit, reporter);
+    return;
+  }
+
+  const signal = createJobSignal(job.id);
+
+  // Taken only once the user answered every confirmation, so a pending prompt never holds up the queue
+  const acquireSlot = async () => {
+    await acquireUploadSlot(job.id, async (position) => {
+      await reporter.update(
+        `⏳ **Upload na fila**\n\n` +
+        `📦 Arquivo: \`${job.attachment.name}\`\n` +
+        `📁 Destino: \`${job.owner}/${job.repo}\`\n\n` +
+        `🔢 Posição na fila: **${position}**\n` +
+        `O upload começa automaticamente quando chegar a sua vez.`
+      );
+    }, signal);
+    // Until here the job is still waiting, for its confirmations or its turn
+    await updateUploadJob(job.id, { status: 'running' });
+  };
+
+  try {
+    job = await updateUploadJob(job.id, { attempts: job.attempts + 1 });
+    await executeUploadJob(job, octokit, reporter, interaction, signal, acquireSlot);
+  } finally {
+    // Also drops the job from the queue if it was cancelled while waiting
+    releaseUploadSlot(job.id);
+    clearJobSignal(job.id);
+  }
+}
+
+// For jobs interrupted between the commit and the end: open the pull request if needed and report
+async function finishCommittedUploadJob(job: UploadJob, octokit: Octokit, reporter: UploadReporter): Promise<void> {
+  const { owner, repo, attachment, options } = job;
+  const commitSha = job.commitSha!;
+
+  try {
+    const target = await getTargetBranch(octokit, owner, repo, options.branch);
+    let pullRequestUrl: string | null = null;
+
+    if (job.pullRequestBranch) {
+      const { data: existing } = await octokit.pulls.list({
+        owner,
+        repo,
+        head: `${owner}:${job.pullRequestBranch}`,
+        state: 'all',
+      });
+      pullRequestUrl = existing[0]?.html_url ?? (await openUploadPullRequest(
+        octokit,
+        owner,
+        repo,
+        target.branch,
+        job.pullRequestBranch,
+        attachment.name,
+        job.userTag
+      )).url;
+    }
+
+    const unchangedFiles = job.files.filter(file => file.state === 'unchanged').length;
+    await saveUploadHistory({
+      command: 'upload',
+      discordUserId: job.userId,
+      discordUserTag: job.userTag,
+      githubUsername: (await getUserData(job.userId))?.githubUsername || null,
+      viaGitHubApp: job.installationId !== null,
+      guildId: job.guildId,
+      owner,
+      repo,
+      branch: job.pullRequestBranch ?? target.branch,
+      folder: options.folderPath,
+      archiveName: attachment.name,
+      archiveSize: 0,
+      totalFiles: job.files.length,
+      uploadedFiles: job.files.length - unchangedFiles,
+      unchangedFiles,
+      deletedFiles: 0,
+      failedFiles: [],
+      commitShas: [commitSha],
+      pullRequestUrl,
+      status: 'completed',
+      error: null,
+      durationMs: 0,
+    });
+    await updateUploadJob(job.id, { status: 'completed' });
+
+    await reporter.finish(
+      `✅ **Upload concluído!** (retomado após reinício do bot)\n\n` +
+      `📦 Arquivo: \`${attachment.name}\`\n` +
+      `📁 Repositório: \`${owner}/${repo}\`\n` +
+      `📝 Commit: [\`${commitSha.substring(0, 7)}\`](https://github.com/${owner}/${repo}/commit/${commitSha})\n` +
+      (pullRequestUrl ? `🔀 Pull request: ${pullRequestUrl}\n` : '') +
+      `\nO commit já tinha sido criado antes do reinício; nenhum arquivo foi reenviado.`
+    );
+    console.log(`✅ Upload ${job.id} já tinha o commit ${commitSha.substring(0, 7)}; finalizado sem reenviar`);
+  } catch (error: any) {
+    console.error(`❌ Erro ao finalizar o upload ${job.id}:`, sanitizeErrorMessage(error));
+    await updateUploadJob(job.id, { status: 'failed', error: sanitizeErrorMessage(error) });
+    await reporter.finish(
+      `❌ **Erro ao finalizar o upload**\n\n` +
+      `📦 Arquivo: \`${attachment.name}\`\n` +
+      `📝 O commit [\`${commitSha.substring(0, 7)}\`](https://github.com/${owner}/${repo}/commit/${commitSha}) já foi criado.\n\n` +
+      `\`\`\`${sanitizeErrorMessage(error)}\`\`\``
+    );
+  }
+}
+
+// Runs a job from the start, or continues it after a restart (interaction is null then)
+async function executeUploadJob(
+  job: UploadJob,
+  octokit: Octokit,
+  reporter: UploadReporter,
+  interaction: ChatInputCommandInteraction | null,
+  signal: AbortSignal,
+  acquireSlot: () => Promise<void>
+): Promise<void> {
+  const { owner, repo: repoName, options, attachment } = job;
+  const { folderPath } = options;
+  const resuming = job.confirmed;
+  const branchDisplay = options.branch ? ` @ ${options.branch}` : '';
+  const destinoDisplay = folderPath 
+    ? `${owner}/${repoName}/${folderPath}${branchDisplay}` 
+    : `${owner}/${repoName} (raiz)${branchDisplay}`;
+
+  // Filled in as the upload progresses and saved once it ends, whatever the outcome
+  const startedAt = Date.now();
+  const history: NewUploadHistoryEntry = {
+    command: 'upload',
+    discordUserId: job.userId,
+    discordUserTag: job.userTag,
+    githubUsername: (await getUserData(job.userId))?.githubUsername || null,
+    viaGitHubApp: job.installationId !== null,
+    guildId: job.guildId,
+    owner,
+    repo: repoName,
+    branch: options.branch,
+    folder: folderPath,
+    archiveName: attachment.name,
+    archiveSize: 0,
+    totalFiles: 0,
+    uploadedFiles: 0,
+    unchangedFiles: 0,
+    deletedFiles: 0,
+    failedFiles: [],
+    commitShas: [],
+    pullRequestUrl: null,
+    status: 'failed',
+    error: null,
+    durationMs: 0,
+  };
+  const recordHistory = (status: UploadHistoryStatus, error: string | null = null) =>
+    saveUploadHistory({ ...history, status, error, durationMs: Date.now() - startedAt });
+
+  await reporter.update(
+    `📤 **${resuming ? 'Retomando upload interrompido...' : 'Iniciando extração e upload...'}**\n\n` +
+    `📦 Arquivo: \`${attachment.name}\`\n` +
+    `📁 Destino: \`${destinoDisplay}\`\n\n` +
+    `🔄 Progresso:\n${createProgressBar(0)}\n` +
+    `⏳ Preparando...`
+  );
+
+  let download: DownloadedFile | null = null;
+  let archive: Archive | null = null;
+  // Blobs already on GitHub, reported if the upload is cancelled before the commit
+  const uploadedPaths = new Set<string>();
+
+  try {
+    await new Promise(resolve => setTimeout(resolve, 500));
+    signal.throwIfAborted();
+    
+    await reporter.update(
+      `📤 **Extraindo e enviando arquivos...**\n\n` +
+      `📦 Arquivo: \`${attachment.name}\`\n` +
+      `📁 Destino: \`${destinoDisplay}\`\n\n` +
+      `🔄 Progresso:\n${createProgressBar(10)}\n` +
+      `📥 Baixando arquivo...`
+    );
+
+    console.log(`📥 Baixando arquivo: ${attachment.name}`);
+    download = await downloadToTempFile(attachment.url);
+    signal.throwIfAborted();
+    const fileSize = download.size;
+    history.archiveSize = fileSize;
+
+    const fileSizeStr = fileSize < 1024 * 1024 
+      ? `${(fileSize / 1024).toFixed(2)} KB`
+      : `${(fileSize / 1024 / 1024).toFixed(2)} MB`;
+
+    await reporter.update(
+      `📤 **Extraindo e enviando arquivos...**\n\n` +
+      `📦 Arquivo: \`${attachment.name}\` (${fileSizeStr})\n` +
+      `📁 Destino: \`${destinoDisplay}\`\n\n` +
+      `🔄 Progresso:\n${createProgressBar(20)}\n` +
+      `📂 Extraindo conteúdo do arquivo...`
+    );
+
+    const repoExists = await repositoryExists(octokit, owner, repoName);
+    if (!repoExists && !options.createRepository) {
+      throw new Error('Not Found');
+    }
+
+    // A repository created by this upload starts out with only the initial commit
+    const newRepoBranch = options.branch || 'main';
+    const target: TargetBranch = repoExists
+      ? await getTargetBranch(octokit, owner, repoName, options.branch)
+      : { branch: newRepoBranch, defaultBranch: newRepoBranch, exists: true };
+    const baseBranch = target.exists ? target.branch : target.defaultBranch;
+    history.branch = target.branch;
+
+    // Size, ratio and file count limits are enforced by openArchive
+    archive = await openArchive(await fileSource(download.path), attachment.name);
+
+    const extracted = await extractArchiveFiles(archive, folderPath, {
+      repoIgnoreRules: repoExists
+        ? await fetchRepoIgnoreRules(octokit, owner, repoName, baseBranch, folderPath)
+        : [],
+      include: parsePatternList(options.include),
+      exclude: parsePatternList(options.exclude),
+    });
+
+    const settings = await getGuildSettings(job.guildId);
+    const largeFiles = await applyLargeFilePolicy(
+      octokit,
+      owner,
+      repoName,
+      repoExists ? baseBranch : null,
+      folderPath,
+      extracted.files,
+      settings
+    );
+
+    history.totalFiles = extracted.totalFiles;
+    history.failedFiles = extracted.failedFiles;
+
+    if (largeFiles.rejected.length > 0) {
+      await updateUploadJob(job.id, { status: 'failed', error: 'Arquivos acima do limite de tamanho' });
+      await recordHistory('failed', 'Arquivos acima do limite de tamanho');
+      await reporter.finish(formatLargeFileReport(largeFiles.rejected, settings));
+      console.log(`🚫 Upload de ${attachment.name} recusado: ${largeFiles.rejected.length} arquivo(s) acima do limite`);
+      return;
+    }
+
+    extracted.totalFiles += largeFiles.files.length - extracted.files.length;
+    extracted.files = largeFiles.files;
+
+    const MAX_MIRROR_DELETIONS = 1000; // Hard cap on removals in a single upload
+    const MIRROR_CONFIRM_THRESHOLD = 20; // Ask before removing more than this
+
+    const fetchRemote = async (branch: string): Promise<{ remote: RemoteTree; plan: UploadPlan }> => {
+      const remote = await fetchRemoteFiles(octokit, owner, repoName, branch, folderPath);
+
+      // An existing folder always has files under it; nothing listed means the comparison would remove nothing by mistake
+      if (options.mirror && folderPath && remote.files.size === 0 && !remote.truncated &&
+          await folderExists(octokit, owner, repoName, branch, folderPath)) {
+        throw new Error(`Modo espelho: a pasta \`${folderPath}\` existe, mas nenhum arquivo dela foi listado`);
+      }
+
+      // Ignored files are left alone in the repository, even in mirror mode and when the archive lacks them
+      for (const remotePath of remote.files.keys()) {
+        if (extracted.isIgnoredPath(remotePath)) {
+          remote.files.delete(remotePath);
+        }
+      }
+
+      const plan = planUpload(extracted.files, remote);
+
+      if (options.mirror) {
+        if (remote.truncated) {
+          throw new Error('Modo espelho indisponível: o repositório é grande demais para listar por completo');
+        }
+        if (plan.deleted.length > MAX_MIRROR_DELETIONS) {
+          throw new Error(
+            `Modo espelho removeria ${plan.deleted.length} arquivos. Limite por upload: ${MAX_MIRROR_DELETIONS}`
+          );
+        }
+      }
+      return { remote, plan };
+    };
+
+    const emptyRemote: RemoteTree = { files: new Map(), truncated: false };
+    let { remote, plan } = repoExists
+      ? await fetchRemote(baseBranch)
+      : { remote: emptyRemote, plan: planUpload(extracted.files, emptyRemote) };
+
+    // Blobs created before an interruption are kept; everything else starts over
+    const previousStates = new Map(job.files.map(file => [file.path, file]));
+    const existingBlobs = new Map(
+      job.files.filter(file => file.state === 'uploaded').map(file => [file.path, file.blobSha])
+    );
+    const unchangedPaths = new Set(plan.unchanged);
+    job = await updateUploadJob(job.id, {
+      files: extracted.files.map(file => ({
+        path: file.path,
+        blobSha: file.blobSha,
+        state: unchangedPaths.has(file.path)
+          ? 'unchanged'
+          : previousStates.get(file.path)?.blobSha === file.blobSha && existingBlobs.has(file.path)
+            ? 'uploaded'
+            : 'pending',
+      })),
+    });
+
+    // Confirmations were already answered before the interruption when resuming
+    if (interaction && !job.confirmed) {
+      // Only files that will actually be written are scanned
+      const changedPaths = new Set([...plan.added, ...plan.modified]);
+      if (!await confirmSecretFindings(interaction, extracted.files.filter(file => changedPaths.has(file.path)))) {
+        await updateUploadJob(job.id, { status: 'cancelled', error: 'Possíveis segredos encontrados' });
+        await recordHistory('cancelled', 'Possíveis segredos encontrados');
+        console.log(`🚫 Upload de ${attachment.name} bloqueado por possíveis segredos`);
+        return;
+      }
+
+      const needsMirrorConfirmation = options.mirror && plan.deleted.length > MIRROR_CONFIRM_THRESHOLD;
+
+      if (options.preview || needsMirrorConfirmation) {
+        let previewMessage = `🔍 **${options.preview ? 'Prévia do upload' : 'Confirmação necessária'}**\n\n` +
+          `📦 Arquivo: \`${attachment.name}\` (${fileSizeStr})\n` +
+          `📁 Destino: \`${destinoDisplay}\`\n` +
+          (repoExists ? '' : `📁 O repositório \`${owner}/${repoName}\` será criado (${options.newRepository?.isPrivate ?? true ? 'privado' : 'público'})\n`) +
+          (target.exists ? '' : `🌿 A branch \`${target.branch}\` será criada a partir de \`${target.defaultBranch}\`\n`) +
+          (needsMirrorConfirmation ? `⚠️ O modo espelho vai **remover ${plan.deleted.length} arquivos** do repositório.\n` : '') +
+          `\n${formatUploadPlan(plan, options.mirror)}`;
+
+        if (largeFiles.lfsObjects.length > 0) {
+          previewMessage += `🗄️ Via Git LFS (acima de ${settings.maxFileSizeMB} MB): ${largeFiles.lfsObjects.length}\n`;
+        }
+
+        if (extracted.ignoredFiles.length > 0) {
+          previewMessage += `🙈 Ignorados (.gitignore/incluir/excluir): ${extracted.ignoredFiles.length}\n`;
+        }
+
+        if (extracted.failedFiles.length > 0) {
+          previewMessage += `⚠️ Arquivos ignorados: ${extracted.failedFiles.length}\n`;
+        }
+
+        const confirmed = await awaitConfirmation(interaction, previewMessage, 'Confirmar upload');
+        if (!confirmed) {
+          await updateUploadJob(job.id, { status: 'cancelled', error: 'Cancelado na confirmação' });
+          await recordHistory('cancelled', 'Cancelado na confirmação');
+          await interaction.editReply(previewMessage + `\n🚫 **Upload cancelado.** Nenhuma alteração foi feita.`);
+          console.log(`🚫 Upload de ${attachment.name} cancelado na confirmação`);
+          return;
+        }
+      }
+    }
+
+    // A cancel requested while a confirmation was pending takes effect here
+    signal.throwIfAborted();
+    job = await updateUploadJob(job.id, { confirmed: true });
+    await acquireSlot();
+
+    if (!repoExists) {
+      await createRepository(octokit, {
+        name: repoName,
+        organization: options.organization,
+        // Jobs queued before these options existed created private repositories
+        isPrivate: options.newRepository?.isPrivate ?? true,
+        description: options.newRepository?.description,
+        license: options.newRepository?.license,
+        gitignore: options.newRepository?.gitignore,
+        defaultBranch: newRepoBranch,
+      });
+      job = await updateUploadJob(job.id, { createdRepository: true });
+    }
+
+    await ensureRepoHasContent(octokit, owner, repoName);
+
+    if (!target.exists) {
+      await createBranchFrom(octokit, owner, repoName, target.branch, target.defaultBranch);
+      job = await updateUploadJob(job.id, { createdBranches: [...job.createdBranches, target.branch] });
+      console.log(`🌿 Branch ${target.branch} criada a partir de ${target.defaultBranch} em ${owner}/${repoName}`);
+    }
+
+    let uploadBranch = target.branch;
+
+    if (options.openPullRequest) {
+      // A resumed job keeps the branch it already created
+      if (!job.pullRequestBranch || !(await getTargetBranch(octokit, owner, repoName, job.pullRequestBranch)).exists) {
+        const pullRequestBranch = createUploadBranchName(attachment.name);
+        await createBranchFrom(octokit, owner, repoName, pullRequestBranch, target.branch);
+        job = await updateUploadJob(job.id, {
+          pullRequestBranch,
+          createdBranches: [...job.createdBranches, pullRequestBranch],
+        });
+      }
+      uploadBranch = job.pullRequestBranch!;
+    }
+    history.branch = uploadBranch;
+
+    // The commit goes on top of the upload branch, which lags behind the target when a job is resumed
+    if (uploadBranch !== baseBranch) {
+      ({ remote } = await fetchRemote(uploadBranch));
+    }
+
+    if (largeFiles.lfsObjects.length > 0) {
+      const { token } = await octokit.auth() as { token: string };
+      await uploadLfsObjects(owner, repoName, token, largeFiles.lfsObjects, async (current, total) => {
+        signal.throwIfAborted();
+        await reporter.update(
+          `📤 **Enviando arquivos grandes via Git LFS**\n\n` +
+          `📦 Arquivo: \`${attachment.name}\` (${fileSizeStr})\n` +
+          `📁 Destino: \`${destinoDisplay}\`\n\n` +
+          `🗄️ Progresso: ${current}/${total} objetos LFS\n${createProgressBar(20)}`
+        );
+      });
+      console.log(`🗄️ ${largeFiles.lfsObjects.length} objeto(s) enviados via LFS para ${owner}/${repoName}`);
+    }
+
+    console.log(`📂 Extraindo conteúdo do arquivo e fazendo upload para GitHub (${uploadBranch})...`);
+
+    // Per-file state is saved at most every few seconds to keep disk writes low
+    const STATE_SAVE_INTERVAL = 3000;
+    existingBlobs.forEach((_, path) => uploadedPaths.add(path));
+    let lastStateSave = Date.now();
+
+    const saveFileStates = async () => {
+      job = await updateUploadJob(job.id, {
+        files: job.files.map(file => (
+          uploadedPaths.has(file.path) && file.state === 'pending' ? { ...file, state: 'uploaded' } : file
+        )),
+      });
+      lastStateSave = Date.now();
+    };
+    
+    const uploadResult = await uploadZipContentsToGitHub(
+      octokit,
+      owner,
+      repoName,
+      uploadBranch,
+      extracted,
+      remote,
+      options.mirror,
+      attachment.name,
+      job.userTag,
+      async (current, total, fileName) => {
+        const progress = 20 + Math.round((current / total) * 70);
+        await reporter.update(
+          `📤 **Enviando arquivos para o GitHub** ⚡\n\n` +
+          `📦 Arquivo: \`${attachment.name}\` (${fileSizeStr})\n` +
+          `📁 Destino: \`${destinoDisplay}\`\n\n` +
+          `📄 Enviando: \`${fileName}\`\n` +
+          `🔄 Progresso: ${current}/${total} arquivos\n${createProgressBar(progress)}\n` +
+          `⚡ Upload paralelo (5 arquivos por vez)...`
+        );
+      },
+      {
+        existingBlobs,
+        onBatchUploaded: async (paths) => {
+          paths.forEach(path => uploadedPaths.add(path));
+          if (Date.now() - lastStateSave >= STATE_SAVE_INTERVAL) {
+            await saveFileStates();
+          }
+        },
+        signal,
+      }
+    );
+
+    if (uploadResult.commitSha) {
+      job = await updateUploadJob(job.id, { commitSha: uploadResult.commitSha });
+    }
+    Object.assign(history, {
+      totalFiles: uploadResult.totalFiles,
+      uploadedFiles: uploadResult.uploadedFiles,
+      unchangedFiles: uploadResult.unchangedFiles,
+      deletedFiles: uploadResult.deletedFiles,
+      failedFiles: uploadResult.failedFiles,
+      commitShas: uploadResult.commitSha ? [uploadResult.commitSha] : [],
+    });
+
+    let pullRequest: { number: number; url: string } | null = null;
+    if (job.pullRequestBranch) {
+      if (uploadResult.commitSha) {
+        pullRequest = await openUploadPullRequest(
+          octokit,
+          owner,
+          repoName,
+          target.branch,
+          job.pullRequestBranch,
+          attachment.name,
+          job.userTag
+        );
+      } else {
+        // Nothing to propose: the upload branch is gone and the target branch is what the user sees
+        await deleteBranch(octokit, owner, repoName, job.pullRequestBranch);
+        uploadBranch = target.branch;
+        history.branch = target.branch;
+      }
+    }
+
+    const locationDisplay = folderPath 
+      ? `\`${folderPath}\`` 
+      : '`/ (raiz)`';
+
+    const githubLink = uploadBranch === target.defaultBranch && !folderPath
+      ? `https://github.com/${owner}/${repoName}`
+      : `https://github.com/${owner}/${repoName}/tree/${uploadBranch}${folderPath ? `/${folderPath}` : ''}`;
+
+    let resultMessage = `✅ **Upload concluído!**${uploadResult.commitSha ? '' : ' (nenhuma alteração)'}` +
+      `${resuming ? ' (retomado após reinício do bot)' : ''}\n\n` +
+      `📦 Arquivo: \`${attachment.name}\` (${fileSizeStr})\n` +
+      `📁 Repositório: \`${owner}/${repoName}\`${job.createdRepository ? ' (criado agora)' : ''}\n` +
+      `🌿 Branch: \`${uploadBranch}\`${job.createdBranches.includes(target.branch) ? ' (criada agora)' : ''}\n` +
+      `📂 Localização: ${locationDisplay}\n\n` +
+      `📊 Resultado:\n` +
+      `✅ Arquivos enviados: ${uploadResult.uploadedFiles}/${uploadResult.totalFiles}\n`;
+
+    if (uploadResult.unchangedFiles > 0) {
+      resultMessage += `⏸️ Sem alteração (não reenviados): ${uploadResult.unchangedFiles}\n`;
+    }
+
+    if (uploadResult.deletedFiles > 0) {
+      resultMessage += `🗑️ Removidos (modo espelho): ${uploadResult.deletedFiles}\n`;
+    }
+
+    if (largeFiles.lfsObjects.length > 0) {
+      resultMessage += `🗄️ Via Git LFS: ${largeFiles.lfsObjects.length}\n`;
+    }
+
+    if (extracted.ignoredFiles.length > 0) {
+      resultMessage += `🙈 Ignorados (.gitignore/incluir/excluir): ${extracted.ignoredFiles.length}\n`;
+    }
+
+    if (uploadResult.commitSha) {
+      resultMessage += `📝 Commit: [\`${uploadResult.commitSha.substring(0, 7)}\`](https://github.com/${owner}/${repoName}/commit/${uploadResult.commitSha})\n`;
+    }
+
+    if (pullRequest) {
+      resultMessage += `🔀 Pull request: [#${pullRequest.number}](${pullRequest.url}) → \`${target.branch}\`\n`;
+    }
+
+    if (!uploadResult.commitSha && uploadResult.failedFiles.length === 0) {
+      resultMessage += `ℹ️ Todos os arquivos já estavam atualizados, nenhum commit foi criado.\n`;
+    }
+
+    if (uploadResult.failedFiles.length > 0) {
+      resultMessage += `⚠️  Arquivos com erro: ${uploadResult.failedFiles.length}\n`;
+      if (uploadResult.failedFiles.length <= 5) {
+        resultMessage += `\n**Arquivos que falharam:**\n`;
+        uploadResult.failedFiles.forEach((file: string) => {
+          resultMessage += `• \`${file}\`\n`;
+        });
+      }
+    }
+
+    resultMessage += `\n🔄 Progresso:\n${createProgressBar(100)}\n` +
+      `✅ Completo!`;
+
+    // Without a commit there is nothing new to look at on GitHub
+    if (uploadResult.commitSha) {
+      resultMessage += `\n\n🔗 **Ver no GitHub**: ${pullRequest ? pullRequest.url : githubLink}`;
+    }
+
+    history.pullRequestUrl = pullRequest?.url || null;
+    await updateUploadJob(job.id, { status: 'completed' });
+    await recordHistory('completed');
+    await reporter.finish(resultMessage);
+
+    console.log(`✅ Upload concluído: ${uploadResult.uploadedFiles}/${uploadResult.totalFiles} arquivos (${uploadResult.unchangedFiles} sem alteração)`);
+  } catch (error: any) {
+    // The commit is the last step, so a cancelled job never wrote anything to the branch
+    const cancelled = signal.aborted && !job.commitSha;
+    if (!cancelled) {
+      console.error('❌ Erro no upload:', error);
+    }
+
+    try {
+      await rollbackUploadJob(octokit, job);
+      await updateUploadJob(job.id, cancelled
+        ? { status: 'cancelled', error: 'Cancelado pelo usuário' }
+        : { status: 'failed', error: sanitizeErrorMessage(error) });
+    } catch (rollbackError: any) {
+      console.error(`❌ Erro ao desfazer o upload ${job.id}:`, sanitizeErrorMessage(rollbackError));
+    }
+
+    await recordHistory(
+      cancelled ? 'cancelled' : 'failed',
+      cancelled ? 'Cancelado pelo usuário' : sanitizeErrorMessage(error)
+    );
+
+    if (cancelled) {
+      let cancelMessage = `🛑 **Upload cancelado!**\n\n` +
+        `📦 Arquivo: \`${attachment.name}\`\n` +
+        `📁 Destino: \`${destinoDisplay}\`\n\n` +
+        `✅ Nenhum arquivo foi gravado no repositório: tudo entra em um único commit, que não chegou a ser criado.\n`;
+
+      if (uploadedPaths.size > 0) {
+        cancelMessage += `📤 ${uploadedPaths.size} arquivo(s) já enviados ao GitHub ficaram fora de qualquer commit e serão descartados.\n`;
+      }
+
+      if (job.createdBranches.length > 0) {
+        cancelMessage += `🌿 Branches criadas pelo upload e removidas: ${job.createdBranches.map(branch => `\`${branch}\``).join(', ')}\n`;
+      }
+
+      if (job.createdRepository) {
+        cancelMessage += `📁 O repositório \`${owner}/${repoName}\` criado por este upload foi mantido.\n`;
+      }
+
+      await reporter.finish(cancelMessage);
+      console.log(`🛑 Upload ${job.id} (${attachment.name}) cancelado por ${job.userTag}`);
+      return;
+    }
+
+    let errorMessage = '\n\n';
+
+    if (error.message.includes('Not Found')) {
+      errorMessage += `⚠️  O repositório \`${owner}/${repoName}\` não existe.\n\n`;
+      errorMessage += `📝 **Como criar o repositório:**\n`;
+      errorMessage += `1. Acesse: https://github.com/new\n`;
+      errorMessage += `2. Nome do repositório: \`${repoName}\`\n`;
+      errorMessage += `3. Clique em "Create repository"\n`;
+      errorMessage += `4. Tente enviar o arquivo novamente\n\n`;
+      errorMessage += `💡 Ou use \`/criar-repo\`, ou envie novamente com \`criar_repo: True\` no \`/upload\``;
+    } else if (isTokenPermissionError(error)) {
+      errorMessage += `${TOKEN_PERMISSION_HINT}\n\n\`\`\`${error.message}\`\`\``;
+    } else {
+      errorMessage += `\`\`\`${error.message}\`\`\``;
+    }
+
+    await reporter.finish(
+      `❌ **Erro no upload!**\n\n` +
+      `📦 Arquivo: \`${attachment.name}\`\n\n` +
+      `🔄 Progresso:\n${createProgressBar(0)}\n` +
+      `❌ Falhou` +
+      errorMessage
+    );
+  } finally {
+    // Temp files go away whether the upload succeeded, failed or was cancelled
+    await archive?.close();
+    if (download) {
+      await removeTempFile(download.path);
+    }
+  }
+}
+
+const MAX_UPLOAD_ATTEMPTS = 3; // A job that keeps taking the process down is given up after this many runs
+
+// Jobs left queued or running by a previous process: resume confirmed ones, drop the rest
+async function resumeInterruptedJobs(client: Client): Promise<void> {
+  const pruned = await pruneFinishedJobs();
+  if (pruned > 0) {
+    console.log(`🧹 ${pruned} upload(s) antigo(s) removido(s) do histórico de jobs`);
+  }
+
+  const interrupted = await listUploadJobs(job => !isFinishedJob(job));
+  if (interrupted.length === 0) return;
+
+  console.log(`🔁 ${interrupted.length} upload(s) interrompido(s) encontrado(s)`);
+
+  for (const job of interrupted) {
+    const reporter = createUploadReporter(client, job);
+
+    if (!job.confirmed) {
+      // Nothing is written before confirmation, so there is nothing to roll back
+      await updateUploadJob(job.id, { status: 'cancelled', error: 'Interrompido pelo reinício do bot' });
+      await reporter.finish(
+        `⚠️ **Upload interrompido**\n\n` +
+        `📦 Arquivo: \`${job.attachment.name}\`\n` +
+        `📁 Destino: \`${job.owner}/${job.repo}\`\n\n` +
+        `O bot reiniciou antes do upload começar. Nenhuma alteração foi feita; envie o arquivo novamente.`
+      );
+      continue;
+    }
+
+    const githubApp = job.installationId ? loadGitHubAppConfig() : null;
+    const octokit = job.installationId
+      ? githubApp && getInstallationOctokit(githubApp, job.installationId)
+      : await getUserGitHubClient(job.userId);
+    if (!octokit) {
+      await updateUploadJob(job.id, { status: 'failed', error: 'Credenciais do GitHub indisponíveis' });
+      await reporter.finish(
+        `❌ **Upload interrompido não pôde ser retomado**\n\n` +
+        `📦 Arquivo: \`${job.attachment.name}\`\n` +
+        `📁 Destino: \`${job.owner}/${job.repo}\`\n\n` +
+        (job.installationId
+          ? `O GitHub App não está mais configurado no bot.`
+          : `Você não está mais autenticado.`) +
+        ` Branches criadas pelo upload não foram removidas.`
+      );
+      continue;
+    }
+
+    // Every earlier run ended with the process, e.g. out of memory on a huge archive; running again would loop
+    if (!job.commitSha && job.attempts >= MAX_UPLOAD_ATTEMPTS) {
+      const error = `Interrompido ${job.attempts} vezes pelo reinício do bot`;
+      try {
+        await rollbackUploadJob(octokit, job);
+      } catch (rollbackError: any) {
+        console.error(`❌ Erro ao desfazer o upload ${job.id}:`, sanitizeErrorMessage(rollbackError));
+      }
+      await updateUploadJob(job.id, { status: 'failed', error });
+      await reporter.finish(
+        `❌ **Upload abandonado**\n\n` +
+        `📦 Arquivo: \`${job.attachment.name}\`\n` +
+        `📁 Destino: \`${job.owner}/${job.repo}\`\n\n` +
+        `O bot reiniciou ${job.attempts} vezes durante este upload, então ele não será retomado de novo. ` +
+        `Branches criadas por ele foram removidas. Tente um arquivo menor ou divida o envio.`
+      );
+      console.warn(`⚠️ Upload ${job.id} abandonado após ${job.attempts} tentativas`);
+      continue;
+    }
+
+    console.log(`🔁 Retomando upload ${job.id} (${job.attachment.name} → ${job.owner}/${job.repo})`);
+
+    // Not awaited: resumed jobs go through the same queue as new ones
+    runUploadJob(job, octokit, reporter, null).catch(error => {
+      console.error(`❌ Erro ao retomar upload ${job.id}:`, sanitizeErrorMessage(error));
+    });
+  }
+}
+
+// Shared by /criar-repo and the repository options of /upload
+const LICENSE_CHOICES = [
+  { name: 'MIT', value: 'mit' },
+  { name: 'Apache 2.0', value: 'apache-2.0' },
+  { name: 'GPL v3', value: 'gpl-3.0' },
+  { name: 'AGPL v3', value: 'agpl-3.0' },
+  { name: 'LGPL v3', value: 'lgpl-3.0' },
+  { name: 'MPL 2.0', value: 'mpl-2.0' },
+  { name: 'BSD 2-Clause', value: 'bsd-2-clause' },
+  { name: 'BSD 3-Clause', value: 'bsd-3-clause' },
+  { name: 'Unlicense', value: 'unlicense' },
+];
+
+const GITIGNORE_CHOICES = [
+  { name: 'Node', value: 'Node' },
+  { name: 'Python', value: 'Python' },
+  { name: 'Java', value: 'Java' },
+  { name: 'Go', value: 'Go' },
+  { name: 'Rust', value: 'Rust' },
+  { name: 'C', value: 'C' },
+  { name: 'C++', value: 'C++' },
+  { name: 'VisualStudio', value: 'VisualStudio' },
+  { name: 'Unity', value: 'Unity' },
+  { name: 'Android', value: 'Android' },
+  { name: 'Swift', value: 'Swift' },
+  { name: 'Ruby', value: 'Ruby' },
+  { name: 'Dart', value: 'Dart' },
+];
+
+// Registrar comandos slash
+async function registerCommands(clientId: string, token: string): Promise<void> {
+  const commands = [
+    new SlashCommandBuilder()
+      .setName('login')
+      .setDescription('Fazer login no GitHub (pelo navegador ou com token)')
+      .addStringOption(option =>
+        option.setName('token')
+          .setDescription('Personal Access Token (opcional; sem ele, o login é feito pelo navegador)')
+          .setRequired(false)
+      ),
+    
+    new SlashCommandBuilder()
+      .setName('logout')
+      .setDescription('Fazer logout e remover seu token'),
+    
+    new SlashCommandBuilder()
+      .setName('whoami')
+      .setDescription('Ver informações da sua conta GitHub'),
+    
+    new SlashCommandBuilder()
+      .setName('repos')
+      .setDescription('Listar seus repositórios do GitHub (10 mais recentes)'),
+    
+    new SlashCommandBuilder()
+      .setName('upload')
+      .setDescription('Fazer upload de arquivo ZIP, TAR ou TAR.GZ para seu repositório GitHub')
+      .addStringOption(option =>
+        option.setName('repositorio')
+          .setDescription('Nome do repositório (ex: meu-projeto ou dono/meu-projeto)')
+          .setRequired(true)
+          .setAutocomplete(true)
+      )
+      .addAttachmentOption(option =>
+        option.setName('arquivo')
+          .setDescription('Arquivo para upload (.zip, .tar, .tar.gz, .tgz ou .gz)')
+          .setRequired(true)
+      )
+      .addStringOption(option =>
+        option.setName('pasta')
+          .setDescription('Pasta de destino (opcional, deixe vazio para raiz)')
+          .setRequired(false)
+          .setAutocomplete(true)
+      )
+      .addStringOption(option =>
+        option.setName('branch')
+          .setDescription('Branch de destino (opcional, criada a partir da padrão se não existir)')
+          .setRequired(false)
+          .setAutocomplete(true)
+      )
+      .addBooleanOption(option =>
+        option.setName('abrir_pr')
+          .setDescription('Enviar para uma branch nova e abrir um pull request para revisão')
+          .setRequired(false)
+      )
+      .addBooleanOption(option =>
+        option.setName('previa')
+          .setDescription('Mostrar o que será novo, modificado ou removido e pedir confirmação antes de enviar')
+          .setRequired(false)
+      )
+      .addStringOption(option =>
+        option.setName('modo')
+          .setDescription('Mesclar com os arquivos existentes (padrão) ou espelhar o ZIP, removendo o que não está nele')
+          .setRequired(false)
+          .addChoices(
+            { name: 'mesclar', value: 'mesclar' },
+            { name: 'espelho', value: 'espelho' },
+          )
+      )
+      .addBooleanOption(option =>
+        option.setName('criar_repo')
+          .setDescription('Criar o repositório se ele ainda não existir')
+          .setRequired(false)
+      )
+      .addBooleanOption(option =>
+        option.setName('privado')
+          .setDescription('Com criar_repo: repositório privado (padrão: sim)')
+          .setRequired(false)
+      )
+      .addStringOption(option =>
+        option.setName('descricao')
+          .setDescription('Com criar_repo: descrição do repositório')
+          .setRequired(false)
+      )
+      .addStringOption(option =>
+        option.setName('licenca')
+          .setDescription('Com criar_repo: licença inicial')
+          .setRequired(false)
+          .addChoices(...LICENSE_CHOICES)
+      )
+      .addStringOption(option =>
+        option.setName('gitignore')
+          .setDescription('Com criar_repo: modelo de .gitignore')
+          .setRequired(false)
+          .addChoices(...GITIGNORE_CHOICES)
+      )
+      .addStringOption(option =>
+        option.setName('organizacao')
+          .setDescription('Organização dona do repositório (opcional, padrão: sua conta)')
+          .setRequired(false)
+      )
+      .addStringOption(option =>
+        option.setName('incluir')
+          .setDescription('Enviar apenas arquivos que casam com estes padrões (ex: src/**, *.md)')
+          .setRequired(false)
+      )
+      .addStringOption(option =>
+        option.setName('excluir')
+          .setDescription('Ignorar arquivos que casam com estes padrões (ex: *.log, dist/)')
+          .setRequired(false)
+      ),
+    
+    new SlashCommandBuilder()
+      .setName('enviar-arquivo')
+      .setDescription('Enviar arquivos avulsos (sem compactar) direto para um repositório')
+      .addStringOption(option =>
+        option.setName('repositorio')
+          .setDescription('Nome do repositório (ex: meu-projeto ou dono/meu-projeto)')
+          .setRequired(true)
+          .setAutocomplete(true)
+      )
+      .addAttachmentOption(option =>
+        option.setName('arquivo')
+          .setDescription('Arquivo a enviar')
+          .setRequired(true)
+      )
+      .addAttachmentOption(option =>
+        option.setName('arquivo2')
+          .setDescription('Arquivo adicional (opcional)')
+          .setRequired(false)
+      )
+      .addAttachmentOption(option =>
+        option.setName('arquivo3')
+          .setDescription('Arquivo adicional (opcional)')
+          .setRequired(false)
+      )
+      .addAttachmentOption(option =>
+        option.setName('arquivo4')
+          .setDescription('Arquivo adicional (opcional)')
+          .setRequired(false)
+      )
+      .addAttachmentOption(option =>
+        option.setName('arquivo5')
+          .setDescription('Arquivo adicional (opcional)')
+          .setRequired(false)
+      )
+      .addStringOption(option =>
+        option.setName('pasta')
+          .setDescription('Pasta de destino (opcional, deixe vazio para raiz)')
+          .setRequired(false)
+          .setAutocomplete(true)
+      )
+      .addStringOption(option =>
+        option.setName('branch')
+          .setDescription('Branch de destino (opcional, criada a partir da padrão se não existir)')
+          .setRequired(false)
+          .setAutocomplete(true)
+      )
+      .addStringOption(option =>
+        option.setName('organizacao')
+          .setDescription('Organização dona do repositório (opcional, padrão: sua conta)')
+          .setRequired(false)
+      ),
+    
+    new SlashCommandBuilder()
+      .setName('baixar')
+      .setDescription('Baixar um repositório ou pasta como ZIP aqui no Discord')
+      .addStringOption(option =>
+        option.setName('repositorio')
+          .setDescription('Nome do repositório (ex: meu-projeto ou dono/meu-projeto)')
+          .setRequired(true)
+          .setAutocomplete(true)
+      )
+      .addStringOption(option =>
+        option.setName('branch')
+          .setDescription('Branch ou tag (opcional, padrão: branch padrão)')
+          .setRequired(false)
+          .setAutocomplete(true)
+      )
+      .addStringOption(option =>
+        option.setName('pasta')
+          .setDescription('Pasta a baixar (opcional, padrão: repositório inteiro)')
+          .setRequired(false)
+          .setAutocomplete(true)
+      )
+      .addStringOption(option =>
+        option.setName('organizacao')
+          .setDescription('Organização dona do repositório (opcional, padrão: sua conta)')
+          .setRequired(false)
+      ),
+    
+    new SlashCommandBuilder()
+      .setName('criar-repo')
+      .setDescription('Criar um novo repositório no GitHub')
+      .addStringOption(option =>
+        option.setName('nome')
+          .setDescription('Nome do repositório (ex: meu-projeto)')
+          .setRequired(true)
+      )
+      .addStringOption(option =>
+        option.setName('organizacao')
+          .setDescription('Organização dona do repositório (opcional, padrão: sua conta)')
+          .setRequired(false)
+      )
+      .addBooleanOption(option =>
+        option.setName('privado')
+          .setDescription('Repositório privado (padrão: sim)')
+          .setRequired(false)
+      )
+      .addStringOption(option =>
+        option.setName('descricao')
+          .setDescription('Descrição do repositório')
+          .setRequired(false)
+      )
+      .addStringOption(option =>
+        option.setName('branch_padrao')
+          .setDescription('Nome da branch padrão (padrão: main)')
+          .setRequired(false)
+      )
+      .addStringOption(option =>
+        option.setName('licenca')
+          .setDescription('Licença inicial')
+          .setRequired(false)
+          .addChoices(...LICENSE_CHOICES)
+      )
+      .addStringOption(option =>
+        option.setName('gitignore')
+          .setDescription('Modelo de .gitignore')
+          .setRequired(false)
+          .addChoices(...GITIGNORE_CHOICES)
+      ),
+    
+    new SlashCommandBuilder()
+      .setName('historico')
+      .setDescription('Ver o histórico de uploads')
+      .addStringOption(option =>
+        option.setName('repositorio')
+          .setDescription('Filtrar por repositório (nome ou dono/nome)')
+          .setRequired(false)
+      )
+      .addUserOption(option =>
+        option.setName('usuario')
+          .setDescription('Filtrar por usuário do Discord')
+          .setRequired(false)
+      ),
+    
+    new SlashCommandBuilder()
+      .setName('desfazer')
+      .setDescription('Desfazer um upload seu (o mais recente, se nenhum for escolhido)')
+      .addStringOption(option =>
+        option.setName('upload')
+          .setDescription('Upload a desfazer')
+          .setRequired(false)
+          .setAutocomplete(true)
+      ),
+    
+    new SlashCommandBuilder()
+      .setName('cancelar')
+      .setDescription('Cancelar seus uploads em andamento ou na fila'),
+    
+    new SlashCommandBuilder()
+      .setName('configurar')
+      .setDescription('Configurar o bot neste servidor (arquivos grandes)')
+      .setDefaultMemberPermissions(PermissionFlagsBits.ManageGuild)
+      .setDMPermission(false)
+      .addStringOption(option =>
+        option.setName('arquivos_grandes')
+          .setDescription('O que fazer com arquivos acima do limite')
+          .setRequired(false)
+          .addChoices(
+            { name: 'rejeitar', value: 'rejeitar' },
+            { name: 'lfs', value: 'lfs' },
+          )
+      )
+      .addIntegerOption(option =>
+        option.setName('limite_mb')
+          .setDescription(`Tamanho máximo por arquivo em MB (1-${MAX_BLOB_SIZE_MB})`)
+          .setRequired(false)
+          .setMinValue(1)
+          .setMaxValue(MAX_BLOB_SIZE_MB)
+      ),
+    
+    new SlashCommandBuilder()
+      .setName('help')
+      .setDescription('Mostra ajuda e comandos disponíveis'),
+  ].map(command => command.toJSON());
+
+  const rest = new REST({ version: '10' }).setToken(token);
+
+  try {
+    console.log('🔄 Registrando slash commands...');
+    
+    await rest.put(
+      Routes.applicationCommands(clientId),
+      { body: commands },
+    );
+
+    console.log('✅ Slash commands registrados com sucesso!');
+  } catch (error) {
+    console.error('❌ Erro ao registrar slash commands:', error);
+  }
+}
+
+// Rate limiting
+interface RateLimitEntry {
+  lastCommand: number;
+  commandCount: number;
+  resetTime: number;
+}
+
+const rateLimitMap = new Map<string, RateLimitEntry>();
+const RATE_LIMIT_WINDOW = 60000; // 1 minute window
+const MAX_COMMANDS_PER_WINDOW = 10; // Max 10 commands per minute
+const COOLDOWN_BETWEEN_COMMANDS = 2000; // 2 seconds between commands
+
+function checkRateLimit(userId: string): { allowed: boolean; retryAfter?: number } {
+  const now = Date.now();
+  const entry = rateLimitMap.get(userId);
+  
+  if (!entry) {
+    rateLimitMap.set(userId, {
+      lastCommand: now,
+      commandCount: 1,
+      resetTime: now + RATE_LIMIT_WINDOW
+    });
+    return { allowed: true };
+  }
+  
+  // Reset counter if window expired
+  if (now > entry.resetTime) {
+    entry.commandCount = 1;
+    entry.resetTime = now + RATE_LIMIT_WINDOW;
+    entry.lastCommand = now;
+    return { allowed: true };
+  }
+  
+  // Check cooldown between commands
+  const timeSinceLastCommand = now - entry.lastCommand;
+  if (timeSinceLastCommand < COOLDOWN_BETWEEN_COMMANDS) {
+    return { 
+      allowed: false, 
+      retryAfter: Math.ceil((COOLDOWN_BETWEEN_COMMANDS - timeSinceLastCommand) / 1000)
+    };
+  }
+  
+  // Check if exceeded max commands in window
+  if (entry.commandCount >= MAX_COMMANDS_PER_WINDOW) {
+    const retryAfter = Math.ceil((entry.resetTime - now) / 1000);
+    return { allowed: false, retryAfter };
+  }
+  
+  // Allow command and increment counter
+  entry.commandCount++;
+  entry.lastCommand = now;
+  return { allowed: true };
+}
+
+// Clean up old rate limit entries periodically
+setInterval(() => {
+  const now = Date.now();
+  for (const [userId, entry] of rateLimitMap.entries()) {
+    if (now > entry.resetTime + RATE_LIMIT_WINDOW) {
+      rateLimitMap.delete(userId);
+    }
+  }
+}, 300000); // Clean up every 5 minutes
+
+// Autocomplete suggestions cache (per user, short-lived)
+interface SuggestionCacheEntry {
+  values: string[];
+  expiresAt: number;
+}
+
+const suggestionCache = new Map<string, SuggestionCacheEntry>();
+const REPO_SUGGESTIONS_TTL = 300000; // 5 minutes
+const TREE_SUGGESTIONS_TTL = 60000; // 1 minute
+const MAX_AUTOCOMPLETE_CHOICES = 25; // Discord limit
+const MAX_REPO_SUGGESTIONS = 1000; // Pages of 100 fetched at most, most recently updated first
+
+async function getCachedSuggestions(
+  key: string,
+  ttl: number,
+  loader: () => Promise<string[]>
+): Promise<string[]> {
+  const cached = suggestionCache.get(key);
+  if (cached && cached.expiresAt > Date.now()) {
+    return cached.values;
+  }
+
+  const values = await loader();
+  suggestionCache.set(key, { values, expiresAt: Date.now() + ttl });
+  return values;
+}
+
+// Suggestions belong to the account the user was logged in with
+function clearUserSuggestions(userId: string): void {
+  for (const key of suggestionCache.keys()) {
+    if (key.startsWith(`${userId}:`)) {
+      suggestionCache.delete(key);
+    }
+  }
+}
+
+// Clean up expired suggestions periodically
+setInterval(() => {
+  const now = Date.now();
+  for (const [key, entry] of suggestionCache.entries()) {
+    if (now > entry.expiresAt) {
+      suggestionCache.delete(key);
+    }
+  }
+}, 300000); // Clean up every 5 minutes
+
+async function handleAutocomplete(interaction: AutocompleteInteraction): Promise<void> {
+  const focused = interaction.options.getFocused(true);
+  const userId = interaction.user.id;
+
+  // Suggestions come from the local upload history, no GitHub call needed
+  if (interaction.commandName === 'desfazer') {
+    const query = focused.value.toLowerCase();
+    const uploads = await queryUploadHistory({ discordUserId: userId, guildId: interaction.guildId });
+    await interaction.respond(
+      uploads
+        .filter(isUndoable)
+        .map(entry => ({
+          name: `${entry.archiveName} → ${entry.owner}/${entry.repo}@${entry.branch} (${new Date(entry.createdAt).toLocaleString('pt-BR')})`.substring(0, 100),
+          value: entry.id,
+        }))
+        .filter(choice => choice.name.toLowerCase().includes(query))
+        .slice(0, 25)
+    );
+    return;
+  }
+
+  const octokit = await getUserGitHubClient(userId);
+  if (!octokit) {
+    await interaction.respond([]);
+    return;
+  }
+
+  const [githubUsername] = await getCachedSuggestions(`${userId}:login`, REPO_SUGGESTIONS_TTL, async () => {
+    const { data: user } = await octokit.users.getAuthenticated();
+    return [user.login];
+  });
+
+  let suggestions: string[] = [];
+
+  if (focused.name === 'repositorio') {
+    suggestions = await getCachedSuggestions(`${userId}:repos`, REPO_SUGGESTIONS_TTL, async () => {
+      let fetched = 0;
+      const repos = await octokit.paginate(
+        octokit.repos.listForAuthenticatedUser,
+        { sort: 'updated', per_page: 100 },
+        (response, done) => {
+          fetched += response.data.length;
+          if (fetched >= MAX_REPO_SUGGESTIONS) done();
+          return response.data;
+        }
+      );
+      // Own repositories by name, shared and organization ones as owner/name
+      return repos.map(repo => isSameLogin(repo.owner.login, githubUsername) ? repo.name : repo.full_name);
+    });
+  } else if (focused.name === 'branch' || focused.name === 'pasta') {
+    const repoInput = interaction.options.getString('repositorio');
+    if (!repoInput) {
+      await interaction.respond([]);
+      return;
+    }
+
+    const organization = interaction.options.getString('organizacao')?.trim() || null;
+    const { owner, repo } = parseRepositoryTarget(repoInput, organization, githubUsername);
+
+    if (focused.name === 'branch') {
+      suggestions = await getCachedSuggestions(`${userId}:branches:${owner}/${repo}`, TREE_SUGGESTIONS_TTL, async () => {
+        const { data: branches } = await octokit.repos.listBranches({ owner, repo, per_page: 100 });
+        return branches.map(branch => branch.name);
+      });
+    } else {
+      const branch = interaction.options.getString('branch')?.trim() || null;
+      suggestions = await getCachedSuggestions(`${userId}:dirs:${owner}/${repo}@${branch ?? ''}`, TREE_SUGGESTIONS_TTL, async () => {
+        const ref = branch || (await octokit.repos.get({ owner, repo })).data.default_branch;
+        const { data: tree } = await octokit.git.getTree({ owner, repo, tree_sha: ref, recursive: 'true' });
+        return tree.tree
+          .filter(item => item.type === 'tree' && item.path)
+          .map(item => item.path!);
+      });
+    }
+  }
+
+  const query = focused.value.toLowerCase();
+  const matches = suggestions
+    .filter(value => value.length <= 100 && value.toLowerCase().includes(query))
+    .slice(0, MAX_AUTOCOMPLETE_CHOICES);
+
+  await interaction.respond(matches.map(value => ({ name: value, value })));
+}
+
+function sanitizeErrorMessage(error: any): string {
+  if (!error) return 'Unknown error';
+  
+  let message = error.message || String(error);
+  
+  // Remove potential tokens (GitHub tokens start with ghp_, gho_, ghs_, etc.)
+  message = message.replace(/gh[ps]_[a-zA-Z0-9]{36,}/g, '[REDACTED_TOKEN]');
+  
+  // Remove Discord bot tokens
+  message = message.replace(/[A-Za-z0-9_-]{24}\.[A-Za-z0-9_-]{6}\.[A-Za-z0-9_-]{27,}/g, '[REDACTED_TOKEN]');
+  
+  // Remove encryption secrets or keys
+  message = message.replace(/secret[=:]\s*[^\s]+/gi, 'secret=[REDACTED]');
+  message = message.replace(/key[=:]\s*[^\s]+/gi, 'key=[REDACTED]');
+  message = message.replace(/password[=:]\s*[^\s]+/gi, 'password=[REDACTED]');
+  
+  // Remove file paths that might contain sensitive info
+  message = message.replace(/\/home\/[^\s]+/g, '[PATH]');
+  message = message.replace(/C:\\Users\\[^\s]+/g, '[PATH]');
+  
+  // Limit message length
+  if (message.length > 500) {
+    message = message.substring(0, 500) + '... [truncated]';
+  }
+  
+  return message;
+}
+
+function validateEnvironment(): void {
+  const errors: string[] = [];
+  
+  // Required variables
+  if (!process.env.DISCORD_BOT_TOKEN) {
+    errors.push('DISCORD_BOT_TOKEN is required');
+  }
+  
+  if (!process.env.ENCRYPTION_SECRET) {
+    errors.push('ENCRYPTION_SECRET is required');
+  } else if (process.env.ENCRYPTION_SECRET.length < 32) {
+    errors.push('ENCRYPTION_SECRET must be at least 32 characters long');
+  }
+
+  const previousSecrets = (process.env.ENCRYPTION_PREVIOUS_SECRETS || '').split(',').map(s => s.trim()).filter(Boolean);
+  if (previousSecrets.some(secret => secret.length < 32)) {
+    errors.push('Every key in ENCRYPTION_PREVIOUS_SECRETS must be at least 32 characters long');
+  }
+
+  try {
+    loadGitHubAppConfig();
+  } catch (error: any) {
+    errors.push(error.message);
+  }
+  
+  if (errors.length > 0) {
+    console.error('❌ Environment validation failed:');
+    errors.forEach(error => console.error(`   - ${error}`));
+    console.error('\n📝 Required environment variables:');
+    console.error('   - DISCORD_BOT_TOKEN: Your Discord bot token');
+    console.error('   - ENCRYPTION_SECRET: Strong secret key (min 32 chars) for token encryption');
+    throw new Error('Missing or invalid required environment variables');
+  }
+  
+  console.log('✅ Environment variables validated');
+}
+
+const LOCK_METRICS_INTERVAL = 10 * 60 * 1000; // Reports lock contention every 10 minutes
+// Last reported wait count per lock, so quiet periods don't repeat the same totals
+const reportedLockWaits = new Map<string, number>();
+
+// Only locks that made someone wait are worth reporting; the totals count since startup
+function logLockContention(onlyChanged = false): void {
+  for (const lock of getLockMetrics()) {
+    const waits = lock.contended + lock.timeouts + lock.staleRemoved;
+    if (waits === 0 || (onlyChanged && reportedLockWaits.get(lock.lockPath) === waits)) continue;
+    reportedLockWaits.set(lock.lockPath, waits);
+    const averageWait = Math.round(lock.totalWaitMs / Math.max(lock.acquisitions, 1));
+    console.log(
+      `🔒 ${lock.lockPath}: ${lock.contended}/${lock.acquisitions} espera(s), média ${averageWait}ms, ` +
+      `máx ${lock.maxWaitMs}ms, ${lock.timeouts} timeout(s), ${lock.staleRemoved} trava(s) abandonada(s)`
+    );
+  }
+}
+
+async function startBot(): Promise<void> {
+  console.log('🤖 Iniciando bot do Discord com Slash Commands...');
+
+  // Validate environment before doing anything else
+  validateEnvironment();
+  
+  // Initialize encryption with unique salt
+  await initEncryption();
+
+  await initTokenStore();
+  console.log(`🗄️ Tokens armazenados em ${loadTokenStoreConfig().type === 'sqlite' ? 'SQLite' : 'arquivo JSON'}`);
+
+  const outdatedTokens = (await listUserData()).filter(data => needsReEncryption(data.githubToken)).length;
+  if (outdatedTokens > 0) {
+    console.warn(`⚠️ ${outdatedTokens} token(s) usam o formato antigo ou uma chave anterior; rode \`npm run rotate-keys\``);
+  }
+
+  // Downloads left behind by a previous crash
+  const staleTempFiles = await cleanupStaleTempFiles();
+  if (staleTempFiles > 0) {
+    console.log(`🧹 ${staleTempFiles} arquivo(s) temporário(s) antigo(s) removido(s)`);
+  }
+
+  setInterval(() => logLockContention(true), LOCK_METRICS_INTERVAL).unref();
+
+  process.on('exit', removeAllTempFilesSync);
+  for (const signal of ['SIGINT', 'SIGTERM'] as const) {
+    process.once(signal, () => {
+      console.log(`\n👋 ${signal} recebido, encerrando...`);
+      logLockContention();
+      removeAllTempFilesSync();
+      process.exit(0);
+    });
+  }
+
+  const token = process.env.DISCORD_BOT_TOKEN!;
+
+  const client = createDiscordClient();
+
+  const isReplit = process.env.REPLIT_CONNECTORS_HOSTNAME && 
+                   (process.env.REPL_IDENTITY || process.env.WEB_REPL_RENEWAL);
+
+  if (isReplit) {
+    try {
+      const octokit = await getGitHubClient();
+      const { data: user } = await octokit.users.getAuthenticated();
+      const githubUsername = user.login;
+      console.log(`✅ Conectado ao GitHub como: ${githubUsername}`);
+    } catch (error) {
+      console.log('⚠️  Integração GitHub do Replit não disponível');
+      console.log('✅ Modo: Autenticação individual por usuário');
+    }
+  } else {
+    console.log('✅ Modo: Autenticação individual por usuário');
+  }
+
+  client.once('ready', async () => {
+    console.log(`✅ Bot conectado como ${client.user?.tag}`);
+    
+    if (client.user) {
+      await registerCommands(client.user.id, token);
+    }
+    
+    console.log('📨 Aguardando comandos slash...');
+    console.log('\n💡 Comandos disponíveis (use / no Discord):');
+    console.log('   /login - Fazer login no GitHub (navegador ou token)');
+    console.log('   /logout - Fazer logout');
+    console.log('   /whoami - Ver informações da conta');
+    console.log('   /repos - Listar repositórios');
+    console.log('   /upload - Upload de arquivo ZIP/TAR');
+    console.log('   /cancelar - Cancelar uploads em andamento');
+    console.log('   /historico - Histórico de uploads');
+    console.log('   /desfazer - Desfazer um upload');
+    console.log('   /enviar-arquivo - Upload de arquivos avulsos');
+    console.log('   /baixar - Baixar repositório ou pasta como ZIP');
+    console.log('   /criar-repo - Criar repositório');
+    console.log('   /configurar - Configurações do servidor');
+    console.log('   /help - Mostra ajuda completa');
+    console.log(`\n🔐 Modo: Autenticação individual por usuário`);
+    console.log(`📝 Cada usuário deve usar /login com seu próprio token GitHub`);
+    const githubApp = loadGitHubAppConfig();
+    if (githubApp) {
+      const allowedRepos = Object.values(githubApp.allowedRepos).reduce((total, patterns) => total + patterns.length, 0);
+      console.log(`🤖 GitHub App ${githubApp.appId} habilitado em ${githubApp.allowedGuilds.length} servidor(es), ${allowedRepos} repositório(s) liberado(s)`);
+    }
+    console.log(process.env.GITHUB_OAUTH_CLIENT_ID
+      ? `🌐 Login pelo navegador (OAuth device flow) habilitado\n`
+      : `🌐 Login pelo navegador desabilitado (defina GITHUB_OAUTH_CLIENT_ID)\n`);
+
+    try {
+      await resumeInterruptedJobs(client);
+    } catch (error: any) {
+      console.error('❌ Erro ao retomar uploads interrompidos:', sanitizeErrorMessage(error));
+    }
+
+    startTokenHealthMonitor(client);
+  });
+
+  client.on('interactionCreate', async (interaction) => {
+    // Autocomplete fires on every keystroke, so it is not rate limited
+    if (interaction.isAutocomplete()) {
+      try {
+        await handleAutocomplete(interaction);
+      } catch (error: any) {
+        console.error('❌ Erro no autocomplete:', sanitizeErrorMessage(error));
+        await interaction.respond([]).catch(() => {});
+      }
+      return;
+    }
+
+    if (interaction.isButton() && interaction.customId.startsWith(CANCEL_UPLOAD_PREFIX)) {
+      try {
+        await handleCancelUploadButton(interaction);
+      } catch (error: any) {
+        console.error('❌ Erro ao cancelar upload:', sanitizeErrorMessage(error));
+      }
+      return;
+    }
+
+    if (!interaction.isChatInputCommand()) return;
+
+    // Check rate limit
+    const rateLimit = checkRateLimit(interaction.user.id);
+    if (!rateLimit.allowed) {
+      await interaction.reply({
+        content: `⏱️ **Rate limit excedido!**\n\nVocê está enviando comandos muito rápido.\nTente novamente em ${rateLimit.retryAfter} segundo(s).`,
+        ephemeral: true
+      });
+      return;
+    }
+
+    try {
+      switch (interaction.commandName) {
+        case 'login':
+          await handleLoginCommand(interaction);
+          break;
+        case 'logout':
+          await handleLogoutCommand(interaction);
+          break;
+        case 'whoami':
+          await handleWhoAmICommand(interaction);
+          break;
+        case 'repos':
+          await handleReposCommand(interaction);
+          break;
+        case 'upload':
+          await handleUploadCommand(interaction);
+          break;
+        case 'enviar-arquivo':
+          await handleSendFilesCommand(interaction);
+          break;
+        case 'baixar':
+          await handleDownloadCommand(interaction);
+          break;
+        case 'criar-repo':
+          await handleCreateRepoCommand(interaction);
+          break;
+        case 'historico':
+          await handleHistoryCommand(interaction);
+          break;
+        case 'desfazer':
+          await handleUndoCommand(interaction);
+          break;
+        case 'cancelar':
+          await handleCancelCommand(interaction);
+          break;
+        case 'configurar':
+          await handleConfigureCommand(interaction);
+          break;
+        case 'help':
+          await handleHelpCommand(interaction);
+          break;
+      }
+    } catch (error: any) {
+      console.error('❌ Erro ao processar comando:', sanitizeErrorMessage(error));
+      const sanitizedMessage = sanitizeErrorMessage(error);
+      const errorMessage = `❌ **Erro ao processar comando**\n\n\`\`\`${sanitizedMessage}\`\`\``;
+      
+      try {
+        if (interaction.deferred || interaction.replied) {
+          await interaction.editReply(errorMessage);
+        } else {
+          await interaction.reply({ content: errorMessage, ephemeral: true });
+        }
+      } catch (replyError) {
+        console.error('❌ Erro ao enviar mensagem de erro:', sanitizeErrorMessage(replyError));
+      }
+    }
+  });
+
+  client.on('error', (error: Error) => {
+    console.error('❌ Erro no Discord:', sanitizeErrorMessage(error));
+  });
+
+  console.log('🔌 Conectando ao Discord...');
+  await client.login(token);
+}
+
+// Handlers de comandos slash
+const TOKEN_CHECK_INTERVAL = 60 * 60 * 1000; // Looks for tokens due for re-verification every hour
+
+function formatTokenExpiry(expiresAt: string | null | undefined): string {
+  if (expiresAt === undefined) return 'desconhecida (faça /login novamente para registrar)';
+  if (expiresAt === null) return 'sem data de expiração';
+
+  const timestamp = Math.floor(Date.parse(expiresAt) / 1000);
+  return `<t:${timestamp}:F> (<t:${timestamp}:R>)`;
+}
+
+async function sendTokenNotice(client: Client, userData: UserTokenData, notice: TokenNotice): Promise<void> {
+  const account = `🐙 Conta: \`${userData.githubUsername || 'desconhecida'}\`\n`;
+  const content = notice === 'invalid'
+    ? `⚠️ **Seu token do GitHub deixou de funcionar**\n\n` +
+      account +
+      `❓ Motivo: ${userData.invalidReason || 'rejeitado pelo GitHub'}\n\n` +
+      `O token foi revogado, expirou ou perdeu permissões. Uploads e outros comandos vão falhar até você entrar de novo.\n` +
+      `🔑 Use \`/login\` para conectar novamente.`
+    : `⏰ **Seu token do GitHub expira em breve**\n\n` +
+      account +
+      `📅 Expira: ${formatTokenExpiry(userData.expiresAt)}\n\n` +
+      `🔑 Gere um novo token (ou use o login pelo navegador) e faça \`/login\` antes disso para não interromper seus uploads.`;
+
+  try {
+    const user = await client.users.fetch(userData.discordUserId);
+    await user.send(content);
+  } catch (error: any) {
+    // DMs may be closed; the state is still shown by /whoami
+    console.warn(`⚠️  Não foi possível enviar aviso de token para ${userData.discordUserId}:`, error.message);
+  }
+}
+
+async function checkTokenHealth(client: Client): Promise<void> {
+  let verified = 0;
+
+  for (let userData of await listUserData()) {
+    const userId = userData.discordUserId;
+
+    if (needsVerification(userData)) {
+      const token = await getUserToken(userId);
+      if (!token) continue;
+
+      const verification = await verifyGitHubToken(token);
+      const now = new Date().toISOString();
+
+      if (!verification.valid && !verification.rejected) {
+        // GitHub unreachable or rate limited; try again on the next round
+        continue;
+      }
+
+      const changes = verification.valid
+        ? { tokenType: verification.tokenType, scopes: verification.scopes, expiresAt: verification.expiresAt, lastVerifiedAt: now }
+        : { lastVerifiedAt: now, invalidSince: now, invalidReason: verification.error || null };
+      // Skipped when a /login or /logout replaced the token while it was being checked
+      const updated = await updateTokenHealth(userId, changes, userData.githubToken);
+      if (!updated) continue;
+
+      userData = updated;
+      verified++;
+
+      if (!verification.valid) {
+        console.warn(`⚠️  Token de ${userData.githubUsername || userId} foi rejeitado pelo GitHub`);
+      }
+    }
+
+    const notice = getTokenNotice(userData);
+    if (!notice) continue;
+
+    // Marked first, so a token replaced since the listing is never warned about
+    const marked = await updateTokenHealth(
+      userId,
+      notice === 'invalid' ? { invalidNoticeSent: true } : { expiryWarningFor: userData.expiresAt },
+      userData.githubToken
+    );
+    if (marked) {
+      await sendTokenNotice(client, userData, notice);
+    }
+  }
+
+  if (verified > 0) {
+    console.log(`🔑 ${verified} token(s) verificado(s) novamente`);
+  }
+}
+
+function startTokenHealthMonitor(client: Client): void {
+  const runCheck = () => {
+    checkTokenHealth(client).catch(error => {
+      console.error('❌ Erro ao verificar tokens:', sanitizeErrorMessage(error));
+    });
+  };
+
+  runCheck();
+  setInterval(runCheck, TOKEN_CHECK_INTERVAL);
+}
+
+// Users with a device flow login waiting for approval on github.com
+const pendingDeviceLogins = new Set<string>();
+
+async function handleLoginCommand(interaction: ChatInputCommandInteraction): Promise<void> {
+  const token = interaction.options.getString('token');
+  
+  await interaction.deferReply({ ephemeral: true });
+
+  if (!token) {
+    await handleDeviceLogin(interaction);
+    return;
+  }
+
+  await saveVerifiedToken(interaction, token);
+}
+
+async function handleDeviceLogin(interaction: ChatInputCommandInteraction): Promise<void> {
+  const clientId = process.env.GITHUB_OAUTH_CLIENT_ID;
+  const INTERACTION_REPLY_WINDOW = 14 * 60 * 1000; // The reply can only be edited for 15 minutes
+
+  if (!clientId) {
+    await interaction.editReply(
+      `❌ **Login pelo navegador não está configurado neste bot**\n\n` +
+      `Use \`/login token:\` com um Personal Access Token.\n` +
+      `🔗 Crie um em https://github.com/settings/tokens (escopo \`repo\`)`
+    );
+    return;
+  }
+
+  if (pendingDeviceLogins.has(interaction.user.id)) {
+    await interaction.editReply(
+      `⏳ **Você já tem um login em andamento**\n\n` +
+      `Conclua a autorização no navegador ou aguarde o código expirar.`
+    );
+    return;
+  }
+
+  pendingDeviceLogins.add(interaction.user.id);
+
+  try {
+    const code = await requestDeviceCode(clientId);
+    const maxWait = Math.min(code.expiresIn * 1000, INTERACTION_REPLY_WINDOW);
+
+    const openButton = new ActionRowBuilder<ButtonBuilder>().addComponents(
+      new ButtonBuilder()
+        .setLabel('Abrir GitHub')
+        .setStyle(ButtonStyle.Link)
+        .setURL(code.verificationUri),
+    );
+
+    await interaction.editReply({
+      content:
+        `🔐 **Login com GitHub**\n\n` +
+        `1. Abra ${code.verificationUri}\n` +
+        `2. Digite o código: **\`${code.userCode}\`**\n` +
+        `3. Autorize o acesso aos repositórios\n\n` +
+        `⏳ O código expira em ${Math.floor(maxWait / 60000)} minutos. Esta mensagem é atualizada sozinha.\n` +
+        `💡 Prefere usar um token? Use \`/login token:\``,
+      components: [openButton],
+    });
+
+    const result = await waitForDeviceToken(clientId, code, maxWait);
+
+    if (result.status !== 'authorized') {
+      await interaction.editReply({
+        content: result.status === 'denied'
+          ? `🚫 **Login cancelado**\n\nO acesso foi negado no GitHub.`
+          : `⌛ **Código expirado**\n\nUse \`/login\` novamente para gerar um novo código.`,
+        components: [],
+      });
+      return;
+    }
+
+    await interaction.editReply({ content: `🔄 Verificando acesso ao GitHub...`, components: [] });
+    await saveVerifiedToken(interaction, result.token);
+  } catch (error: any) {
+    await interaction.editReply({
+      content: `❌ **Erro no login pelo navegador**\n\n\`${sanitizeErrorMessage(error)}\`\n\n` +
+        `💡 Você pode usar \`/login token:\` com um Personal Access Token.`,
+      components: [],
+    });
+  } finally {
+    pendingDeviceLogins.delete(interaction.user.id);
+  }
+}
+
+async function saveVerifiedToken(interaction: ChatInputCommandInteraction, token: string): Promise<void> {
+  const verification = await verifyGitHubToken(token);
+  
+  if (!verification.valid) {
+    await interaction.editReply(
+      `❌ **Token inválido!**\n\n` +
+      `O token fornecido não é válido ou não tem as permissões necessárias.\n\n` +
+      `Erro: \`${verification.error}\``
+    );
+    return;
+  }
+
+  try {
+    await saveUserToken(interaction.user.id, token, verification.username, {
+      tokenType: verification.tokenType,
+      scopes: verification.scopes,
+      expiresAt: verification.expiresAt,
+    });
+    clearUserSuggestions(interaction.user.id);
+    
+    await interaction.editReply(
+      `✅ **Login realizado com sucesso!**\n\n` +
+      `👤 Usuário GitHub: \`${verification.username}\`\n` +
+      (verification.expiresAt ? `⏰ Token expira: ${formatTokenExpiry(verification.expiresAt)}\n` : '') +
+      (verification.noRepositoryAccess
+        ? `⚠️ O token ainda não tem acesso a nenhum repositório. Edite-o no GitHub, selecione os repositórios e conceda **Contents: Read and write**.\n`
+        : verification.tokenType === 'fine-grained'
+          ? `⚠️ As permissões de tokens fine-grained não podem ser verificadas no login. Confirme que ele tem ` +
+            `**Contents: Read and write** (e **Pull requests: Read and write** para \`abrir_pr\`) nos repositórios que vai usar.\n`
+          : '') +
+      `🎉 Agora você pode usar \`/upload\` para fazer upload nos seus repositórios!\n\n` +
+      `💡 Use \`/repos\` para ver seus repositórios`
+    );
+    
+    console.log(`✅ Usuário ${interaction.user.tag} autenticou como ${verification.username}`);
+  } catch (error: any) {
+    await interaction.editReply(`❌ Erro ao salvar token: \`${sanitizeErrorMessage(error)}\``);
+  }
+}
+
+async function handleLogoutCommand(interaction: ChatInputCommandInteraction): Promise<void> {
+  await interaction.deferReply({ ephemeral: true });
+  
+  const hasToken = await hasUserToken(interaction.user.id);
+  
+  if (!hasToken) {
+    await interaction.editReply(
+      `❌ Você não está autenticado!\n\n` +
+      `Use \`/login\` para fazer login.`
+    );
+    return;
+  }
+
+  const removed = await removeUserToken(interaction.user.id);
+  clearUserSuggestions(interaction.user.id);
+  
+  if (removed) {
+    await interaction.editReply(
+      `✅ **Logout realizado com sucesso!**\n\n` +
+      `Seu token foi removido do sistema.\n` +
+      `Use \`/login\` para fazer login novamente.`
+    );
+    console.log(`✅ Usuário ${interaction.user.tag} fez logout`);
+  } else {
+    await interaction.editReply(`❌ Erro ao remover token.`);
+  }
+}
+
+const TOKEN_TYPE_LABELS: Record<TokenType, string> = {
+  classic: 'Personal Access Token (clássico)',
+  'fine-grained': 'Personal Access Token (fine-grained)',
+  oauth: 'Login pelo navegador (OAuth)',
+};
+
+async function handleWhoAmICommand(interaction: ChatInputCommandInteraction): Promise<void> {
+  await interaction.deferReply({ ephemeral: true });
+  
+  const userData = await getUserData(interaction.user.id);
+  
+  if (!userData) {
+    await interaction.editReply(
+      `❌ Você não está autenticado!\n\n` +
+      `Use \`/login\` para fazer login.`
+    );
+    return;
+  }
+
+  const registeredDate = new Date(userData.registeredAt).toLocaleString('pt-BR');
+  const tokenStatus = userData.invalidSince
+    ? `❌ Rejeitado pelo GitHub desde ${new Date(userData.invalidSince).toLocaleString('pt-BR')} - use \`/login\` novamente`
+    : isExpiringSoon(userData)
+      ? '⚠️ Válido, mas expira em breve'
+      : '✅ Válido';
+  
+  await interaction.editReply(
+    `👤 **Informações da sua conta**\n\n` +
+    `🐙 GitHub: \`${userData.githubUsername || 'Não disponível'}\`\n` +
+    `📅 Registrado em: ${registeredDate}\n` +
+    `💬 Discord: ${interaction.user.tag}\n\n` +
+    `🔑 **Token**\n` +
+    `📊 Status: ${tokenStatus}\n` +
+    (userData.tokenType ? `🏷️ Tipo: ${TOKEN_TYPE_LABELS[userData.tokenType]}\n` : '') +
+    (userData.tokenType === 'fine-grained'
+      ? `🔐 Permissões: por repositório (verificadas antes de cada upload)\n`
+      : `🔐 Escopos: ${userData.scopes ? (userData.scopes.filter(Boolean).map(scope => `\`${scope}\``).join(', ') || 'nenhum') : 'desconhecidos'}\n`) +
+    `⏰ Expiração: ${formatTokenExpiry(userData.expiresAt)}\n` +
+    (userData.lastVerifiedAt ? `🔄 Última verificação: ${new Date(userData.lastVerifiedAt).toLocaleString('pt-BR')}` : '')
+  );
+}
+
+async function handleReposCommand(interaction: ChatInputCommandInteraction): Promise<void> {
+  await interaction.deferReply();
+  
+  const octokit = await getUserGitHubClient(interaction.user.id);
+  
+  if (!octokit) {
+    await interaction.editReply(
+      `❌ Você não está autenticado!\n\n` +
+      `Use \`/login\` para fazer login.`
+    );
+    return;
+  }
+
+  try {
+    const { data: user } = await octokit.users.getAuthenticated();
+    const { data: repos } = await octokit.repos.listForAuthenticatedUser({
+      sort: 'updated',
+      per_page: 10,
+    });
+
+    if (repos.length === 0) {
+      await interaction.editReply(
+        `📚 **Seus Repositórios**\n\n` +
+        `Você ainda não tem repositórios.\n` +
+        `Crie um em: https://github.com/new`
+      );
+      return;
+    }
+
+    const repoList = repos
+      .map((repo: any, index: number) => {
+        const privacy = repo.private ? '🔒' : '🌐';
+        return `${index + 1}. ${privacy} **${repo.name}**\n   ${repo.html_url}`;
+      })
+      .join('\n\n');
+
+    await interaction.editReply(
+      `📚 **Seus Repositórios** (10 mais recentes)\n\n` +
+      `👤 Usuário: \`${user.login}\`\n\n` +
+      `${repoList}\n\n` +
+      `💡 Use \`/upload\` em qualquer destes repositórios!`
+    );
+  } catch (error: any) {
+    await interaction.editReply(
+      `❌ **Erro ao buscar repositórios**\n\n` +
+      `\`\`\`${sanitizeErrorMessage(error)}\`\`\``
+    );
+  }
+}
+
+async function handleUploadCommand(interaction: ChatInputCommandInteraction): Promise<void> {
+  await interaction.deferReply();
+  
+  const octokit = await getUserGitHubClient(interaction.user.id);
+  const githubApp = octokit ? null : getGitHubAppForGuild(interaction.guildId);
+  
+  if (!octokit && !githubApp) {
+    await interaction.editReply(
+      `❌ **Você não está autenticado!**\n\n` +
+      `Use \`/login\` para fazer login primeiro.\n\n` +
+      `📝 **Como obter um token**:\n` +
+      `1. Acesse: https://github.com/settings/tokens\n` +
+      `2. Gere um novo token com permissão \`repo\`\n` +
+      `3. Use: \`/login\``
+    );
+    return;
+  }
+
+  const repoInput = interaction.options.getString('repositorio', true);
+  const organization = interaction.options.getString('organizacao')?.trim() || null;
+  const branch = interaction.options.getString('branch')?.trim() || null;
+  const openPullRequest = interaction.options.getBoolean('abrir_pr') ?? false;
+  const preview = interaction.options.getBoolean('previa') ?? false;
+  const mirror = interaction.options.getString('modo') === 'espelho';
+  const createRepo = interaction.options.getBoolean('criar_repo') ?? false;
+  const newRepository: NewRepositoryOptions = {
+    isPrivate: interaction.options.getBoolean('privado') ?? true,
+    description: interaction.options.getString('descricao')?.trim() || null,
+    license: interaction.options.getString('licenca'),
+    gitignore: interaction.options.getString('gitignore'),
+  };
+  const include = interaction.options.getString('incluir')?.trim() || null;
+  const exclude = interaction.options.getString('excluir')?.trim() || null;
+  const attachment = interaction.options.getAttachment('arquivo', true);
+
+  let folderPath: string;
+  try {
+    folderPath = normalizeFolderInput(interaction.options.getString('pasta'));
+  } catch {
+    await interaction.editReply('❌ **Pasta inválida**\n\nUse um caminho relativo à raiz do repositório, como `docs/api`.');
+    return;
+  }
+
+  if (!isSupportedArchive(attachment.name!)) {
+    await interaction.editReply(
+      '❌ **Erro**: O arquivo deve ser um arquivo compactado!\n\n' +
+      `💡 Extensões aceitas: ${getSupportedExtensions().map(ext => `\`${ext}\``).join(', ')}`
+    );
+    return;
+  }
+
+  const uploadOptions: ZipUploadOptions = {
+    folderPath,
+    branch,
+    openPullRequest,
+    preview,
+    mirror,
+    createRepository: createRepo,
+    ...(createRepo && { newRepository }),
+    organization: null,
+    include,
+    exclude,
+  };
+
+  // Users without their own login upload as the GitHub App in allowed servers
+  if (!octokit) {
+    if (createRepo) {
+      await interaction.editReply(
+        `❌ **O GitHub App não cria repositórios**\n\n` +
+        `Use \`/login\` com sua conta para usar \`criar_repo\`.`
+      );
+      return;
+    }
+
+    try {
+      const target = await resolveAppTarget(githubApp!, interaction.guildId, repoInput, organization);
+      if (typeof target === 'string') {
+        await interaction.editReply(target);
+        return;
+      }
+
+      await handleZipUpload(interaction, attachment, target.octokit, target.owner, target.repo, uploadOptions, target.installationId);
+    } catch (error: any) {
+      await interaction.editReply(
+        `❌ **Erro ao verificar permissões**\n\n` +
+        `\`\`\`${sanitizeErrorMessage(error)}\`\`\``
+      );
+    }
+    return;
+  }
+
+  let githubUsername: string;
+  try {
+    const { data: user } = await octokit.users.getAuthenticated();
+    githubUsername = user.login;
+  } catch (error: any) {
+    if (error.status === 401) {
+      // Recorded so /whoami shows it; the user is told right here, so no DM
+      const now = new Date().toISOString();
+      await updateTokenHealth(interaction.user.id, {
+        lastVerifiedAt: now,
+        invalidSince: now,
+        invalidReason: 'Token rejeitado pelo GitHub (401)',
+        invalidNoticeSent: true,
+      });
+    }
+
+    await interaction.editReply(
+      `❌ **Erro ao obter informações do usuário**\n\n` +
+      `\`\`\`${sanitizeErrorMessage(error)}\`\`\`\n\n` +
+      (error.status === 401
+        ? `🔑 Seu token foi revogado ou expirou. Use \`/login\` novamente.`
+        : `Seu token pode estar inválido. Use \`/logout\` e \`/login\` novamente.`)
+    );
+    return;
+  }
+
+  let owner: string;
+  let repoName: string;
+  try {
+    ({ owner, repo: repoName } = parseRepositoryTarget(repoInput, organization, githubUsername));
+  } catch (error: any) {
+    await interaction.editReply(`❌ **Erro**: ${error.message}`);
+    return;
+  }
+
+  // Check access before downloading anything
+  try {
+    const access = await checkWriteAccess(octokit, owner, repoName, githubUsername);
+
+    if (access === 'read-only') {
+      await interaction.editReply(
+        `❌ **Sem permissão de escrita em \`${owner}/${repoName}\`**\n\n` +
+        `Sua conta \`${githubUsername}\` (ou o token usado no \`/login\`) não pode enviar arquivos para este repositório.\n` +
+        `Peça acesso de escrita ao dono do repositório ou use um token com permissão \`repo\`.`
+      );
+      return;
+    }
+
+    if (access === 'not-found' && !createRepo) {
+      await interaction.editReply(
+        `❌ **Repositório \`${owner}/${repoName}\` não encontrado**\n\n` +
+        `Ele não existe ou seu token não tem acesso a ele.\n\n` +
+        `💡 Use \`/criar-repo\`, ou envie novamente com \`criar_repo: True\` no \`/upload\``
+      );
+      return;
+    }
+  } catch (error: any) {
+    await interaction.editReply(
+      `❌ **Erro ao verificar permissões**\n\n` +
+      `\`\`\`${sanitizeErrorMessage(error)}\`\`\``
+    );
+    return;
+  }
+
+  await handleZipUpload(
+    interaction,
+    attachment,
+    octokit,
+    owner,
+    repoName,
+    { ...uploadOptions, organization: isSameLogin(owner, githubUsername) ? null : owner }
+  );
+}
+
+async function handleSendFilesCommand(interaction: ChatInputCommandInteraction): Promise<void> {
+  await interaction.deferReply();
+  
+  const userOctokit = await getUserGitHubClient(interaction.user.id);
+  const githubApp = userOctokit ? null : getGitHubAppForGuild(interaction.guildId);
+  
+  if (!userOctokit && !githubApp) {
+    await interaction.editReply(
+      `❌ Você não está autenticado!\n\n` +
+      `Use \`/login\` para fazer login.`
+    );
+    return;
+  }
+
+  const repoInput = interaction.options.getString('repositorio', true);
+  const organization = interaction.options.getString('organizacao')?.trim() || null;
+  const branch = interaction.options.getString('branch')?.trim() || null;
+  const attachments = ['arquivo', 'arquivo2', 'arquivo3', 'arquivo4', 'arquivo5']
+    .map(name => interaction.options.getAttachment(name))
+    .filter((attachment): attachment is Attachment => attachment !== null);
+
+  let folderPath: string;
+  try {
+    folderPath = normalizeFolderInput(interaction.options.getString('pasta'));
+  } catch {
+    await interaction.editReply('❌ **Pasta inválida**\n\nUse um caminho relativo à raiz do repositório, como `docs/api`.');
+    return;
+  }
+
+  // Same-named files would land on the same path and only the last one would be committed
+  const duplicateNames = attachments
+    .map(attachment => attachment.name)
+    .filter((name, index, names) => names.indexOf(name) !== index);
+  if (duplicateNames.length > 0) {
+    await interaction.editReply(
+      `❌ **Arquivos com o mesmo nome**\n\n` +
+      `\`${[...new Set(duplicateNames)].join('`, `')}\` foi enviado mais de uma vez. Renomeie os arquivos ou envie-os em comandos separados.`
+    );
+    return;
+  }
+
+  const startedAt = Date.now();
+  // Set while a branch created by this command has no commit yet, so a failure can remove it
+  let removeCreatedBranch: (() => Promise<void>) | null = null;
+  let history: NewUploadHistoryEntry | null = null;
+  const recordHistory = async (status: UploadHistoryStatus, error: string | null = null) => {
+    if (history) {
+      await saveUploadHistory({ ...history, status, error, durationMs: Date.now() - startedAt });
+    }
+  };
+
+  try {
+    let octokit: Octokit;
+    let owner: string;
+    let repo: string;
+    let githubUsername: string | null = null;
+
+    if (userOctokit) {
+      const { data: user } = await userOctokit.users.getAuthenticated();
+      ({ owner, repo } = parseRepositoryTarget(repoInput, organization, user.login));
+
+      const access = await checkWriteAccess(userOctokit, owner, repo, user.login);
+      if (access !== 'write') {
+        await interaction.editReply(
+          access === 'not-found'
+            ? `❌ **Repositório \`${owner}/${repo}\` não encontrado**\n\nEle não existe ou seu token não tem acesso a ele.`
+            : `❌ **Sem permissão de escrita em \`${owner}/${repo}\`**`
+        );
+        return;
+      }
+
+      octokit = userOctokit;
+      githubUsername = user.login;
+    } else {
+      const target = await resolveAppTarget(githubApp!, interaction.guildId, repoInput, organization);
+      if (typeof target === 'string') {
+        await interaction.editReply(target);
+        return;
+      }
+      ({ octokit, owner, repo } = target);
+    }
+
+    const fileNames = attachments.map(attachment => attachment.name).join(', ');
+    history = {
+      command: 'enviar-arquivo',
+      discordUserId: interaction.user.id,
+      discordUserTag: interaction.user.tag,
+      githubUsername,
+      viaGitHubApp: !userOctokit,
+      guildId: interaction.guildId,
+      owner,
+      repo,
+      branch,
+      folder: folderPath,
+      archiveName: fileNames,
+      archiveSize: attachments.reduce((total, attachment) => total + attachment.size, 0),
+      totalFiles: attachments.length,
+      uploadedFiles: 0,
+      unchangedFiles: 0,
+      deletedFiles: 0,
+      failedFiles: [],
+      commitShas: [],
+      pullRequestUrl: null,
+      status: 'failed',
+      error: null,
+      durationMs: 0,
+    };
+
+    await interaction.editReply(
+      `📤 **Enviando arquivos...**\n\n` +
+      `📄 Arquivos: \`${fileNames}\`\n` +
+      `📁 Destino: \`${owner}/${repo}${folderPath ? `/${folderPath}` : ' (raiz)'}\`\n\n` +
+      `🔄 Progresso:\n${createProgressBar(10)}\n` +
+      `📥 Baixando arquivos...`
+    );
+
+    const files: ExtractedFile[] = [];
+    for (const attachment of attachments) {
+      // Same size and time limits as archive uploads
+      const content = await downloadFile(attachment.url);
+      files.push(createExtractedFile(
+        normalizePath(folderPath ? `${folderPath}/${attachment.name}` : attachment.name),
+        attachment.name,
+        content
+      ));
+    }
+
+    if (!await confirmSecretFindings(interaction, files)) {
+      await recordHistory('cancelled', 'Possíveis segredos encontrados');
+      return;
+    }
+
+    await ensureRepoHasContent(octokit, owner, repo);
+
+    const target = await getTargetBranch(octokit, owner, repo, branch);
+    history.branch = target.branch;
+    const settings = await getGuildSettings(interaction.guildId);
+    const largeFiles = await applyLargeFilePolicy(
+      octokit,
+      owner,
+      repo,
+      target.exists ? target.branch : target.defaultBranch,
+      folderPath,
+      files,
+      settings
+    );
+
+    if (largeFiles.rejected.length > 0) {
+      await recordHistory('failed', 'Arquivos acima do limite de tamanho');
+      await interaction.editReply(formatLargeFileReport(largeFiles.rejected, settings));
+      return;
+    }
+
+    if (!target.exists) {
+      await createBranchFrom(octokit, owner, repo, target.branch, target.defaultBranch);
+      removeCreatedBranch = () => deleteBranch(octokit, owner, repo, target.branch);
+    }
+
+    if (largeFiles.lfsObjects.length > 0) {
+      const { token } = await octokit.auth() as { token: string };
+      await uploadLfsObjects(owner, repo, token, largeFiles.lfsObjects);
+    }
+
+    const remote = await fetchRemoteFiles(octokit, owner, repo, target.branch, folderPath);
+    const result = await uploadZipContentsToGitHub(
+      octokit,
+      owner,
+      repo,
+      target.branch,
+      {
+        totalFiles: largeFiles.files.length,
+        files: largeFiles.files,
+        failedFiles: [],
+        ignoredFiles: [],
+        isIgnoredPath: () => false,
+      },
+      remote,
+      false,
+      fileNames,
+      interaction.user.tag
+    );
+    removeCreatedBranch = null;
+
+    Object.assign(history, {
+      uploadedFiles: result.uploadedFiles,
+      unchangedFiles: result.unchangedFiles,
+      failedFiles: result.failedFiles,
+      commitShas: result.commitSha ? [result.commitSha] : [],
+    });
+    await recordHistory('completed');
+
+    let resultMessage = `✅ **Arquivos enviados!**\n\n` +
+      `📁 Repositório: \`${owner}/${repo}\`\n` +
+      `🌿 Branch: \`${target.branch}\`${target.exists ? '' : ' (criada agora)'}\n\n` +
+      files.map(file => `📄 \`${file.path}\``).join('\n') + '\n\n' +
+      `✅ Enviados: ${result.uploadedFiles}/${result.totalFiles}\n`;
+
+    if (result.unchangedFiles > 0) {
+      resultMessage += `⏸️ Sem alteração (não reenviados): ${result.unchangedFiles}\n`;
+    }
+
+    if (result.commitSha) {
+      resultMessage += `📝 Commit: [\`${result.commitSha.substring(0, 7)}\`](https://github.com/${owner}/${repo}/commit/${result.commitSha})\n`;
+    }
+
+    await interaction.editReply(resultMessage);
+
+    console.log(`✅ ${result.uploadedFiles} arquivo(s) avulso(s) enviado(s) para ${owner}/${repo}@${target.branch}`);
+  } catch (error: any) {
+    // Same as the /upload rollback: a branch created for nothing is removed
+    if (removeCreatedBranch) {
+      await removeCreatedBranch();
+    }
+    await recordHistory('failed', sanitizeErrorMessage(error));
+    await interaction.editReply(
+      `❌ **Erro ao enviar arquivos**\n\n` +
+      `\`\`\`${sanitizeErrorMessage(error)}\`\`\`` +
+      (isTokenPermissionError(error) ? `\n\n${TOKEN_PERMISSION_HINT}` : '')
+    );
+  }
+}
+
+async function handleDownloadCommand(interaction: ChatInputCommandInteraction): Promise<void> {
+  await interaction.deferReply();
+  
+  const octokit = await getUserGitHubClient(interaction.user.id);
+  
+  if (!octokit) {
+    await interaction.editReply(
+      `❌ Você não está autenticado!\n\n` +
+      `Use \`/login\` para fazer login.`
+    );
+    return;
+  }
+
+  const repoInput = interaction.options.getString('repositorio', true);
+  const organization = interaction.options.getString('organizacao')?.trim() || null;
+  const refInput = interaction.options.getString('branch')?.trim() || null;
+
+  try {
+    const folderPath = normalizeFolderInput(interaction.options.getString('pasta'));
+    const { data: user } = await octokit.users.getAuthenticated();
+    const { owner, repo } = parseRepositoryTarget(repoInput, organization, user.login);
+    const ref = refInput || (await octokit.repos.get({ owner, repo })).data.default_branch;
+
+    await interaction.editReply(
+      `📥 **Preparando download...**\n\n` +
+      `📁 Origem: \`${owner}/${repo}${folderPath ? `/${folderPath}` : ''}\` @ \`${ref}\`\n\n` +
+      `🔄 Progresso:\n${createProgressBar(30)}\n` +
+      `📦 Compactando arquivos...`
+    );
+
+    const { buffer, fileCount } = await buildRepositoryZip(octokit, owner, repo, ref, folderPath);
+    const sizeLimit = interaction.attachmentSizeLimit;
+
+    if (buffer.length > sizeLimit) {
+      await interaction.editReply(
+        `❌ **Arquivo grande demais para o Discord**\n\n` +
+        `📦 Tamanho do ZIP: ${formatSize(buffer.length)}\n` +
+        `📏 Limite de anexos neste servidor: ${formatSize(sizeLimit)}\n\n` +
+        `💡 Tente baixar uma pasta menor com a opção \`pasta\`, ou baixe direto pelo GitHub:\n` +
+        `https://github.com/${owner}/${repo}/archive/${encodeURIComponent(ref)}.zip`
+      );
+      return;
+    }
+
+    const zipName = [repo, folderPath.replace(/\//g, '-'), ref.replace(/[^A-Za-z0-9._-]+/g, '-')]
+      .filter(Boolean)
+      .join('-') + '.zip';
+
+    await interaction.editReply({
+      content:
+        `✅ **Download pronto!**\n\n` +
+        `📁 Origem: \`${owner}/${repo}${folderPath ? `/${folderPath}` : ''}\` @ \`${ref}\`\n` +
+        `📄 Arquivos: ${fileCount}\n` +
+        `📦 Tamanho: ${formatSize(buffer.length)}`,
+      files: [new AttachmentBuilder(buffer, { name: zipName })],
+    });
+
+    console.log(`📥 ${owner}/${repo}@${ref} (${folderPath || 'raiz'}) enviado para ${interaction.user.tag}`);
+  } catch (error: any) {
+    const notFound = error.status === 404
+      ? `\n\nRepositório, branch/tag ou pasta não encontrados (ou seu token não tem acesso).`
+      : '';
+
+    await interaction.editReply(
+      `❌ **Erro ao baixar**\n\n` +
+      `\`\`\`${sanitizeErrorMessage(error)}\`\`\`` +
+      notFound
+    );
+  }
+}
 
-  const verification = await verifyGitHubToken(token);
+async function handleCreateRepoCommand(interaction: ChatInputCommandInteraction): Promise<void> {
+  await interaction.deferReply();
   
-  if (!verification.valid) {
+  const octokit = await getUserGitHubClient(interaction.user.id);
+  
+  if (!octokit) {
     await interaction.editReply(
-      `❌ **Token inválido!**\n\n` +
-      `O token fornecido não é válido ou não tem as permissões necessárias.\n\n` +
-      `Erro: \`${verification.error}\``
+      `❌ Você não está autenticado!\n\n` +
+      `Use \`/login\` para fazer login.`
     );
     return;
   }
 
+  const options: CreateRepositoryOptions = {
+    name: interaction.options.getString('nome', true).trim(),
+    organization: interaction.options.getString('organizacao')?.trim() || null,
+    isPrivate: interaction.options.getBoolean('privado') ?? true,
+    description: interaction.options.getString('descricao'),
+    defaultBranch: interaction.options.getString('branch_padrao')?.trim() || null,
+    license: interaction.options.getString('licenca'),
+    gitignore: interaction.options.getString('gitignore'),
+  };
+
   try {
-    await saveUserToken(interaction.user.id, token, verification.username);
-    
+    const repo = await createRepository(octokit, options);
+
     await interaction.editReply(
-      `✅ **Login realizado com sucesso!**\n\n` +
-      `👤 Usuário GitHub: \`${verification.username}\`\n` +
-      `🎉 Agora você pode usar \`/upload\` para fazer upload nos seus repositórios!\n\n` +
-      `💡 Use \`/repos\` para ver seus repositórios`
+      `✅ **Repositório criado!**\n\n` +
+      `📁 Repositório: \`${repo.owner}/${repo.name}\` ${options.isPrivate ? '🔒' : '🌐'}\n` +
+      `🌿 Branch padrão: \`${repo.defaultBranch}\`\n` +
+      (options.license ? `📜 Licença: \`${options.license}\`\n` : '') +
+      (options.gitignore ? `🙈 .gitignore: \`${options.gitignore}\`\n` : '') +
+      `\n🔗 ${repo.htmlUrl}\n\n` +
+      `💡 Use \`/upload\` para enviar arquivos para ele!`
     );
-    
-    console.log(`✅ Usuário ${interaction.user.tag} autenticou como ${verification.username}`);
   } catch (error: any) {
-    await interaction.editReply(`❌ Erro ao salvar token: \`${sanitizeErrorMessage(error)}\``);
+    let hint = '';
+    if (error.status === 422) {
+      hint = `\n\nJá existe um repositório com esse nome ou algum parâmetro é inválido.`;
+    } else if (error.status === 403 || error.status === 404) {
+      hint = `\n\nVerifique se seu token pode criar repositórios${options.organization ? ` na organização \`${options.organization}\`` : ''}.`;
+    }
+
+    await interaction.editReply(
+      `❌ **Erro ao criar repositório**\n\n` +
+      `\`\`\`${sanitizeErrorMessage(error)}\`\`\`` +
+      hint
+    );
   }
 }
 
-async function handleLogoutCommand(interaction: ChatInputCommandInteraction): Promise<void> {
+async function handleConfigureCommand(interaction: ChatInputCommandInteraction): Promise<void> {
   await interaction.deferReply({ ephemeral: true });
-  
-  const hasToken = await hasUserToken(interaction.user.id);
-  
-  if (!hasToken) {
-    await interaction.editReply(
-      `❌ Você não está autenticado!\n\n` +
-      `Use \`/login\` para fazer login.`
-    );
+
+  if (!interaction.guildId) {
+    await interaction.editReply('❌ Este comando só pode ser usado em servidores.');
     return;
   }
 
-  const removed = await removeUserToken(interaction.user.id);
-  
-  if (removed) {
-    await interaction.editReply(
-      `✅ **Logout realizado com sucesso!**\n\n` +
-      `Seu token foi removido do sistema.\n` +
-      `Use \`/login\` para fazer login novamente.`
+  // Default permissions can be overridden by server admins, so check again here
+  if (!interaction.memberPermissions?.has(PermissionFlagsBits.ManageGuild)) {
+    await interaction.editReply('❌ Você precisa da permissão **Gerenciar Servidor** para alterar as configurações.');
+    return;
+  }
+
+  const policy = interaction.options.getString('arquivos_grandes') as LargeFilePolicy | null;
+  const limitMB = interaction.options.getInteger('limite_mb');
+
+  let settings: GuildSettings;
+  if (policy || limitMB) {
+    settings = await updateGuildSettings(
+      interaction.guildId,
+      {
+        ...(policy ? { largeFilePolicy: policy } : {}),
+        ...(limitMB ? { maxFileSizeMB: limitMB } : {}),
+      },
+      interaction.user.tag
     );
-    console.log(`✅ Usuário ${interaction.user.tag} fez logout`);
+    console.log(`⚙️  Configurações do servidor ${interaction.guildId} alteradas por ${interaction.user.tag}`);
   } else {
-    await interaction.editReply(`❌ Erro ao remover token.`);
+    settings = await getGuildSettings(interaction.guildId);
   }
+
+  await interaction.editReply(
+    `⚙️ **Configurações do servidor**\n\n` +
+    `📏 Limite por arquivo: **${settings.maxFileSizeMB} MB**\n` +
+    `🗄️ Arquivos acima do limite: **${settings.largeFilePolicy === 'lfs' ? 'enviados via Git LFS' : 'upload recusado'}**\n` +
+    (settings.updatedBy ? `\n🕐 Alterado por ${settings.updatedBy} em ${new Date(settings.updatedAt!).toLocaleString('pt-BR')}` : '')
+  );
 }
 
-async function handleWhoAmICommand(interaction: ChatInputCommandInteraction): Promise<void> {
+const HISTORY_PAGE_SIZE = 5;
+const HISTORY_STATUS_ICONS: Record<UploadHistoryStatus, string> = {
+  completed: '✅',
+  failed: '❌',
+  cancelled: '🛑',
+};
+
+function formatDuration(ms: number): string {
+  const seconds = Math.round(ms / 1000);
+  return seconds < 60 ? `${seconds}s` : `${Math.floor(seconds / 60)}min ${seconds % 60}s`;
+}
+
+function formatHistoryEntry(entry: UploadHistoryEntry): { name: string; value: string } {
+  const repoUrl = `https://github.com/${entry.owner}/${entry.repo}`;
+  const lines = [
+    `📦 \`${entry.archiveName}\` (${formatSize(entry.archiveSize)})` +
+      (entry.command === 'enviar-arquivo' ? ' · arquivos avulsos' : ''),
+    `📂 \`${entry.folder || '/ (raiz)'}\`` + (entry.branch ? ` @ \`${entry.branch}\`` : ''),
+    `👤 <@${entry.discordUserId}>` + (entry.githubUsername ? ` (GitHub: \`${entry.githubUsername}\`)` : '') +
+      (entry.viaGitHubApp ? ' · via GitHub App' : ''),
+    `📊 ${entry.uploadedFiles}/${entry.totalFiles} enviados` +
+      (entry.unchangedFiles ? ` · ${entry.unchangedFiles} sem alteração` : '') +
+      (entry.deletedFiles ? ` · ${entry.deletedFiles} removidos` : '') +
+      (entry.failedFiles.length ? ` · ${entry.failedFiles.length} com erro` : ''),
+  ];
+
+  for (const sha of entry.commitShas) {
+    lines.push(`📝 [\`${sha.substring(0, 7)}\`](${repoUrl}/commit/${sha})`);
+  }
+
+  if (entry.pullRequestUrl) {
+    lines.push(`🔀 ${entry.pullRequestUrl}`);
+  }
+
+  if (entry.error) {
+    lines.push(`⚠️ ${entry.error.substring(0, 200)}`);
+  }
+
+  if (entry.undo) {
+    lines.push(`↩️ Desfeito por ${entry.undo.undoneBy} em <t:${Math.floor(Date.parse(entry.undo.undoneAt) / 1000)}:f>`);
+  }
+
+  const timestamp = Math.floor(Date.parse(entry.createdAt) / 1000);
+  lines.push(`🕐 <t:${timestamp}:f> · ⏱️ ${formatDuration(entry.durationMs)}`);
+
+  return {
+    name: `${HISTORY_STATUS_ICONS[entry.status]} ${entry.owner}/${entry.repo}`.substring(0, 256),
+    value: lines.join('\n').substring(0, 1024),
+  };
+}
+
+function buildHistoryEmbed(entries: UploadHistoryEntry[], page: number, description: string): EmbedBuilder {
+  const current = paginate(entries, page, HISTORY_PAGE_SIZE);
+
+  return new EmbedBuilder()
+    .setTitle('📜 Histórico de uploads')
+    .setDescription(description)
+    .setColor(0x24292e)
+    .addFields(current.items.map(formatHistoryEntry))
+    .setFooter({ text: `Página ${current.page}/${current.totalPages} · ${entries.length} upload(s)` });
+}
+
+function buildHistoryButtons(page: number, totalPages: number): ActionRowBuilder<ButtonBuilder> {
+  return new ActionRowBuilder<ButtonBuilder>().addComponents(
+    new ButtonBuilder()
+      .setCustomId('historico-anterior')
+      .setLabel('◀ Anterior')
+      .setStyle(ButtonStyle.Secondary)
+      .setDisabled(page <= 1),
+    new ButtonBuilder()
+      .setCustomId('historico-proximo')
+      .setLabel('Próxima ▶')
+      .setStyle(ButtonStyle.Secondary)
+      .setDisabled(page >= totalPages),
+  );
+}
+
+async function handleHistoryCommand(interaction: ChatInputCommandInteraction): Promise<void> {
   await interaction.deferReply({ ephemeral: true });
-  
-  const userData = await getUserData(interaction.user.id);
-  
-  if (!userData) {
-    await interaction.editReply(
-      `❌ Você não está autenticado!\n\n` +
-      `Use \`/login\` para fazer login.`
-    );
+
+  const HISTORY_BROWSE_TIMEOUT = 5 * 60 * 1000; // Page buttons stop working after 5 minutes
+
+  const repository = interaction.options.getString('repositorio')?.trim() || null;
+  const requestedUser = interaction.options.getUser('usuario');
+
+  // Server managers audit everyone in the server; other members and DMs only see their own uploads
+  const canSeeEveryone = interaction.guildId !== null &&
+    interaction.memberPermissions?.has(PermissionFlagsBits.ManageGuild) === true;
+
+  if (requestedUser && requestedUser.id !== interaction.user.id && !canSeeEveryone) {
+    await interaction.editReply('❌ Você precisa da permissão **Gerenciar Servidor** para ver uploads de outros usuários.');
     return;
   }
 
-  const registeredDate = new Date(userData.registeredAt).toLocaleString('pt-BR');
-  
-  await interaction.editReply(
-    `👤 **Informações da sua conta**\n\n` +
-    `🐙 GitHub: \`${userData.githubUsername || 'Não disponível'}\`\n` +
-    `📅 Registrado em: ${registeredDate}\n` +
-    `💬 Discord: ${interaction.user.tag}`
-  );
+  const discordUserId = requestedUser?.id || (canSeeEveryone ? null : interaction.user.id);
+  const entries = await queryUploadHistory({
+    repository,
+    discordUserId,
+    ...(interaction.guildId ? { guildId: interaction.guildId } : {}),
+  });
+
+  if (entries.length === 0) {
+    await interaction.editReply('📭 Nenhum upload encontrado com esses filtros.');
+    return;
+  }
+
+  const description = [
+    repository ? `📁 Repositório: \`${repository}\`` : null,
+    discordUserId ? `👤 Usuário: <@${discordUserId}>` : '👥 Todos os usuários do servidor',
+  ].filter(Boolean).join('\n');
+
+  let page = 1;
+  const totalPages = paginate(entries, page, HISTORY_PAGE_SIZE).totalPages;
+
+  const message = await interaction.editReply({
+    embeds: [buildHistoryEmbed(entries, page, description)],
+    components: totalPages > 1 ? [buildHistoryButtons(page, totalPages)] : [],
+  });
+
+  if (totalPages === 1) return;
+
+  const collector = message.createMessageComponentCollector({
+    componentType: ComponentType.Button,
+    filter: (i) => i.user.id === interaction.user.id,
+    time: HISTORY_BROWSE_TIMEOUT,
+  });
+
+  collector.on('collect', async (button) => {
+    page += button.customId === 'historico-proximo' ? 1 : -1;
+    await button.update({
+      embeds: [buildHistoryEmbed(entries, page, description)],
+      components: [buildHistoryButtons(page, totalPages)],
+    });
+  });
+
+  collector.on('end', async () => {
+    await interaction.editReply({ components: [] }).catch(() => {});
+  });
 }
 
-async function handleReposCommand(interaction: ChatInputCommandInteraction): Promise<void> {
+async function fetchCommitBlobs(
+  octokit: Octokit,
+  owner: string,
+  repo: string,
+  commitSha: string
+): Promise<{ blobs: Map<string, TreeBlob>; truncated: boolean }> {
+  const { data: commit } = await octokit.git.getCommit({ owner, repo, commit_sha: commitSha });
+  const { data: tree } = await octokit.git.getTree({ owner, repo, tree_sha: commit.tree.sha, recursive: 'true' });
+  const blobs = new Map<string, TreeBlob>();
+
+  for (const item of tree.tree) {
+    if (item.type === 'blob' && item.path && item.sha) {
+      blobs.set(item.path, { sha: item.sha, mode: item.mode as BlobMode });
+    }
+  }
+
+  return { blobs, truncated: tree.truncated };
+}
+
+function formatPathList(paths: string[], limit: number = 10): string {
+  let list = paths.slice(0, limit).map(path => `• \`${path}\``).join('\n');
+  if (paths.length > limit) {
+    list += `\n… e mais ${paths.length - limit}`;
+  }
+  return list + '\n';
+}
+
+async function handleUndoCommand(interaction: ChatInputCommandInteraction): Promise<void> {
   await interaction.deferReply();
-  
+
   const octokit = await getUserGitHubClient(interaction.user.id);
-  
+
   if (!octokit) {
     await interaction.editReply(
       `❌ Você não está autenticado!\n\n` +
@@ -971,91 +4158,221 @@ async function handleReposCommand(interaction: ChatInputCommandInteraction): Pro
     return;
   }
 
+  const MAX_COMPARE_COMMITS = 250; // The compare API lists at most this many commits
+  const MAX_COMPARE_FILES = 300; // ...and at most this many files
+
+  const uploadId = interaction.options.getString('upload');
+  const entry = uploadId
+    ? await getUploadHistoryEntry(uploadId)
+    : (await queryUploadHistory({ discordUserId: interaction.user.id, guildId: interaction.guildId }))
+        .find(isUndoable) || null;
+
+  if (!entry || entry.discordUserId !== interaction.user.id) {
+    await interaction.editReply(
+      `❌ **Nenhum upload seu para desfazer**\n\n` +
+      `Use \`/historico\` para ver seus uploads, ou escolha um na opção \`upload\`.`
+    );
+    return;
+  }
+
+  if (!isUndoable(entry)) {
+    await interaction.editReply(
+      entry.undo
+        ? `ℹ️ O upload \`${entry.archiveName}\` já foi desfeito em ${new Date(entry.undo.undoneAt).toLocaleString('pt-BR')}.`
+        : `❌ O upload \`${entry.archiveName}\` não criou nenhum commit, então não há o que desfazer.`
+    );
+    return;
+  }
+
+  const { owner, repo } = entry;
+  const branch = entry.branch!;
+  const commitSha = entry.commitShas[entry.commitShas.length - 1];
+  const shortSha = commitSha.substring(0, 7);
+  const commitLink = `[\`${shortSha}\`](https://github.com/${owner}/${repo}/commit/${commitSha})`;
+
   try {
-    const { data: user } = await octokit.users.getAuthenticated();
-    const { data: repos } = await octokit.repos.listForAuthenticatedUser({
-      sort: 'updated',
-      per_page: 10,
-    });
+    const { data: commit } = await octokit.git.getCommit({ owner, repo, commit_sha: commitSha });
+    if (commit.parents.length !== 1) {
+      await interaction.editReply(`❌ O commit ${commitLink} não tem exatamente um pai e não pode ser desfeito automaticamente.`);
+      return;
+    }
+    const parentSha = commit.parents[0].sha;
 
-    if (repos.length === 0) {
-      await interaction.editReply(
-        `📚 **Seus Repositórios**\n\n` +
-        `Você ainda não tem repositórios.\n` +
-        `Crie um em: https://github.com/new`
-      );
+    const [before, after] = await Promise.all([
+      fetchCommitBlobs(octokit, owner, repo, parentSha),
+      fetchCommitBlobs(octokit, owner, repo, commitSha),
+    ]);
+
+    if (before.truncated || after.truncated) {
+      await interaction.editReply(`❌ O repositório \`${owner}/${repo}\` é grande demais para comparar as versões pela API do GitHub.`);
       return;
     }
 
-    const repoList = repos
-      .map((repo: any, index: number) => {
-        const privacy = repo.private ? '🔒' : '🌐';
-        return `${index + 1}. ${privacy} **${repo.name}**\n   ${repo.html_url}`;
-      })
-      .join('\n\n');
+    const plan = planUndo(before.blobs, after.blobs);
+    if (plan.treeItems.length === 0) {
+      await interaction.editReply(`ℹ️ O commit ${commitLink} não alterou nenhum arquivo; não há o que desfazer.`);
+      return;
+    }
+
+    const { data: ref } = await octokit.git.getRef({ owner, repo, ref: `heads/${branch}` });
+    const headSha = ref.object.sha;
+    const method: UploadUndo['method'] = headSha === commitSha ? 'reset' : 'revert';
+
+    if (method === 'revert') {
+      const { data: comparison } = await octokit.repos.compareCommitsWithBasehead({
+        owner,
+        repo,
+        basehead: `${commitSha}...${headSha}`,
+      });
+
+      if (comparison.status !== 'ahead') {
+        await interaction.editReply(
+          `❌ **Não é possível desfazer**\n\n` +
+          `O commit ${commitLink} não faz mais parte da branch \`${branch}\` (ela foi reescrita depois do upload).`
+        );
+        return;
+      }
+
+      const laterFiles = comparison.files || [];
+      if (comparison.total_commits > MAX_COMPARE_COMMITS || laterFiles.length >= MAX_COMPARE_FILES) {
+        await interaction.editReply(
+          `❌ **Não é possível desfazer**\n\n` +
+          `A branch \`${branch}\` recebeu alterações demais depois do upload para verificar conflitos com segurança.`
+        );
+        return;
+      }
+
+      const laterPaths = laterFiles.flatMap(file => [file.filename, file.previous_filename].filter(Boolean) as string[]);
+      const conflicts = findConflicts(changedPaths(plan), laterPaths);
+
+      if (conflicts.length > 0) {
+        const authors = [...new Set(comparison.commits.map(later => later.author?.login || later.commit.author?.name || '?'))];
+        await interaction.editReply(
+          `❌ **Não é possível desfazer**\n\n` +
+          `${comparison.total_commits} commit(s) posteriores ao upload (de ${authors.map(author => `\`${author}\``).join(', ')}) ` +
+          `alteraram arquivos que o upload também alterou. Desfazer apagaria essas mudanças:\n\n` +
+          formatPathList(conflicts) +
+          `\n💡 Reverta manualmente no GitHub ou desfaça primeiro os commits posteriores.`
+        );
+        return;
+      }
+    }
+
+    let confirmMessage = `↩️ **Desfazer upload**\n\n` +
+      `📦 Arquivo: \`${entry.archiveName}\` (${new Date(entry.createdAt).toLocaleString('pt-BR')})\n` +
+      `📁 Repositório: \`${owner}/${repo}\` @ \`${branch}\`\n` +
+      `📝 Commit: ${commitLink}\n\n` +
+      (method === 'reset'
+        ? `🔙 Nada foi enviado depois do upload: a branch volta para o commit anterior e o commit do upload deixa de fazer parte dela.\n\n`
+        : `🔁 A branch recebeu outros commits depois do upload, sem tocar nos mesmos arquivos: será criado um commit revertendo o upload.\n\n`);
+
+    if (plan.restored.length > 0) {
+      confirmMessage += `♻️ **Voltam à versão anterior (${plan.restored.length}):**\n` + formatPathList(plan.restored);
+    }
+
+    if (plan.removed.length > 0) {
+      confirmMessage += `🗑️ **Serão removidos (${plan.removed.length}):**\n` + formatPathList(plan.removed);
+    }
+
+    const confirmed = await awaitConfirmation(interaction, confirmMessage, 'Desfazer upload');
+    if (!confirmed) {
+      await interaction.editReply(confirmMessage + `\n🚫 **Cancelado.** Nenhuma alteração foi feita.`);
+      return;
+    }
+
+    let undoCommitSha: string | null = null;
+
+    if (method === 'reset') {
+      // The branch may have moved while the confirmation was pending
+      const { data: currentRef } = await octokit.git.getRef({ owner, repo, ref: `heads/${branch}` });
+      if (currentRef.object.sha !== commitSha) {
+        await interaction.editReply(
+          confirmMessage +
+          `\n❌ A branch \`${branch}\` recebeu novos commits durante a confirmação. Use \`/desfazer\` novamente.`
+        );
+        return;
+      }
+
+      await octokit.git.updateRef({ owner, repo, ref: `heads/${branch}`, sha: parentSha, force: true });
+    } else {
+      undoCommitSha = await commitTreeToBranch(
+        octokit,
+        owner,
+        repo,
+        branch,
+        plan.treeItems,
+        `Desfaz upload: ${entry.archiveName} (${shortSha}, desfeito por ${interaction.user.tag})`
+      );
+    }
+
+    await markUploadUndone(entry.id, {
+      method,
+      commitSha: undoCommitSha,
+      undoneBy: interaction.user.tag,
+      undoneAt: new Date().toISOString(),
+    });
+
+    console.log(`↩️ Upload ${shortSha} em ${owner}/${repo}@${branch} desfeito por ${interaction.user.tag} (${method})`);
 
     await interaction.editReply(
-      `📚 **Seus Repositórios** (10 mais recentes)\n\n` +
-      `👤 Usuário: \`${user.login}\`\n\n` +
-      `${repoList}\n\n` +
-      `💡 Use \`/upload\` em qualquer destes repositórios!`
+      `✅ **Upload desfeito!**\n\n` +
+      `📦 Arquivo: \`${entry.archiveName}\`\n` +
+      `📁 Repositório: \`${owner}/${repo}\` @ \`${branch}\`\n` +
+      `♻️ Restaurados: ${plan.restored.length}\n` +
+      `🗑️ Removidos: ${plan.removed.length}\n` +
+      (undoCommitSha
+        ? `📝 Commit de reversão: [\`${undoCommitSha.substring(0, 7)}\`](https://github.com/${owner}/${repo}/commit/${undoCommitSha})`
+        : `🔙 A branch voltou para [\`${parentSha.substring(0, 7)}\`](https://github.com/${owner}/${repo}/commit/${parentSha})`)
     );
   } catch (error: any) {
-    await interaction.editReply(
-      `❌ **Erro ao buscar repositórios**\n\n` +
-      `\`\`\`${sanitizeErrorMessage(error)}\`\`\``
-    );
+    const notFound = error.status === 404
+      ? `\n\nO repositório, a branch ou o commit não existem mais (ou seu token não tem acesso).`
+      : '';
+
+    await interaction.editReply({
+      content: `❌ **Erro ao desfazer upload**\n\n\`\`\`${sanitizeErrorMessage(error)}\`\`\`` + notFound,
+      components: [],
+    });
   }
 }
 
-async function handleUploadCommand(interaction: ChatInputCommandInteraction): Promise<void> {
-  await interaction.deferReply();
-  
-  const octokit = await getUserGitHubClient(interaction.user.id);
-  
-  if (!octokit) {
-    await interaction.editReply(
-      `❌ **Você não está autenticado!**\n\n` +
-      `Use \`/login\` para fazer login primeiro.\n\n` +
-      `📝 **Como obter um token**:\n` +
-      `1. Acesse: https://github.com/settings/tokens\n` +
-      `2. Gere um novo token com permissão \`repo\`\n` +
-      `3. Use: \`/login\``
-    );
+async function handleCancelCommand(interaction: ChatInputCommandInteraction): Promise<void> {
+  await interaction.deferReply({ ephemeral: true });
+
+  const activeJobs = await listUploadJobs(job => job.userId === interaction.user.id && !isFinishedJob(job));
+  const cancelled = activeJobs.filter(job => cancelUploadJob(job.id));
+
+  if (cancelled.length === 0) {
+    await interaction.editReply('ℹ️ Você não tem nenhum upload em andamento.');
     return;
   }
 
-  const repoName = interaction.options.getString('repositorio', true);
-  const folderPath = interaction.options.getString('pasta') || '';
-  const attachment = interaction.options.getAttachment('arquivo', true);
+  console.log(`🛑 ${interaction.user.tag} cancelou ${cancelled.length} upload(s)`);
 
-  if (!isZipFile(attachment.name!)) {
-    await interaction.editReply(
-      '❌ **Erro**: O arquivo deve ser um ZIP!\n\n' +
-      `💡 Apenas arquivos com extensão \`.zip\` são aceitos.`
-    );
+  await interaction.editReply(
+    `🛑 **Cancelamento solicitado**\n\n` +
+    cancelled.map(job => `• \`${job.attachment.name}\` → \`${job.owner}/${job.repo}\``).join('\n') +
+    `\n\nO upload para no próximo lote e a mensagem de progresso mostra o que foi feito.\n` +
+    `Se o commit final já estiver sendo criado, o upload termina normalmente.`
+  );
+}
+
+async function handleCancelUploadButton(interaction: ButtonInteraction): Promise<void> {
+  const jobId = interaction.customId.substring(CANCEL_UPLOAD_PREFIX.length);
+  const job = await getUploadJob(jobId);
+
+  if (!job || job.userId !== interaction.user.id) {
+    await interaction.reply({ content: '❌ Só quem iniciou o upload pode cancelá-lo.', ephemeral: true });
     return;
   }
 
-  try {
-    const { data: user } = await octokit.users.getAuthenticated();
-    const githubUsername = user.login;
-
-    await handleZipUpload(
-      interaction,
-      attachment,
-      octokit,
-      githubUsername,
-      repoName,
-      folderPath
-    );
-  } catch (error: any) {
-    await interaction.editReply(
-      `❌ **Erro ao obter informações do usuário**\n\n` +
-      `\`\`\`${sanitizeErrorMessage(error)}\`\`\`\n\n` +
-      `Seu token pode estar inválido. Use \`/logout\` e \`/login\` novamente.`
-    );
+  if (!cancelUploadJob(jobId)) {
+    await interaction.reply({ content: 'ℹ️ Este upload já terminou ou já está sendo cancelado.', ephemeral: true });
+    return;
   }
+
+  console.log(`🛑 ${interaction.user.tag} cancelou o upload ${jobId}`);
+  await interaction.reply({ content: '🛑 Cancelamento solicitado. O upload para no próximo lote.', ephemeral: true });
 }
 
 async function handleHelpCommand(interaction: ChatInputCommandInteraction): Promise<void> {
@@ -1076,18 +4393,33 @@ async function handleHelpCommand(interaction: ChatInputCommandInteraction): Prom
     `⚡ **Tecnologia**: Slash Commands (comandos de barra /)\n` +
     authStatus +
     `\n**Autenticação:**\n` +
-    `• \`/login\` - Fazer login com seu token GitHub\n` +
+    `• \`/login\` - Login pelo navegador (código) ou com seu token GitHub\n` +
     `• \`/logout\` - Fazer logout e remover seu token\n` +
     `• \`/whoami\` - Ver informações da sua conta\n\n` +
     `**Repositórios:**\n` +
     `• \`/repos\` - Listar seus repositórios\n` +
-    `• \`/upload\` - Upload de ZIP extraído para repositório\n` +
+    `• \`/upload\` - Upload de ZIP/TAR extraído para repositório\n` +
     `  📂 Parâmetros:\n` +
-    `     • repositorio: nome do seu repo (ex: meu-projeto)\n` +
-    `     • arquivo: arquivo ZIP para upload\n` +
-    `     • pasta: pasta de destino (opcional)\n` +
-    `  ⚡ Arquivos existentes são substituídos automaticamente\n` +
-    `  ⚡ Upload paralelo (5 arquivos por vez)\n\n` +
+    `     • repositorio: nome do repo (ex: meu-projeto ou dono/meu-projeto)\n` +
+    `     • arquivo: .zip, .tar, .tar.gz, .tgz ou .gz\n` +
+    `     • pasta / branch: destino (opcional, a branch é criada se não existir)\n` +
+    `     • abrir_pr: envia para uma branch nova e abre um pull request\n` +
+    `     • previa: mostra as diferenças e pede confirmação\n` +
+    `     • modo: \`mesclar\` (padrão) ou \`espelho\` (remove da pasta o que não está no ZIP)\n` +
+    `     • criar_repo: cria o repositório se não existir (privado, descricao, licenca, gitignore)\n` +
+    `     • organizacao: organização dona do repositório\n` +
+    `     • incluir / excluir: padrões separados por vírgula (ex: \`*.log, dist/\`)\n` +
+    `  ⚡ Arquivos do \`.gitignore\` (do ZIP e do repositório) não são enviados\n` +
+    `  🔐 Tokens, chaves privadas e \`.env\` bloqueiam o envio até você confirmar\n` +
+    `  ⚡ Um único commit; arquivos idênticos aos do repositório não são reenviados\n` +
+    `• \`/cancelar\` - Cancela seus uploads em andamento\n` +
+    `• \`/historico\` - Histórico de uploads (filtros: repositório e usuário)\n` +
+    `• \`/desfazer\` - Desfaz um upload seu (reverte o commit)\n` +
+    `• \`/enviar-arquivo\` - Envia até 5 arquivos avulsos (sem compactar) para uma pasta\n` +
+    `• \`/baixar\` - Baixa um repositório ou pasta como ZIP\n` +
+    `• \`/criar-repo\` - Criar repositório (visibilidade, descrição, branch, licença, .gitignore)\n\n` +
+    `**Servidor:**\n` +
+    `• \`/configurar\` - Limite de tamanho por arquivo e uso de Git LFS (requer Gerenciar Servidor)\n\n` +
     `**Ajuda:**\n` +
     `• \`/help\` - Mostra esta mensagem\n\n` +
     `💡 **Dica**: Comandos \`/login\` são automaticamente privados (ephemeral)!`;
@@ -0,0 +1,128 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { withFileLock, withSharedFileLock } from './fileLock.js';
+import { TokenStore, UserTokenData } from './tokenStore.js';
+
+interface UserTokensDatabase {
+  [discordUserId: string]: UserTokenData;
+}
+
+// Lock file next to the JSON file, also taken by the SQLite store while migrating it
+export function getJsonLockPath(filePath: string): string {
+  return filePath.replace(/\.json$/, '') + '.lock';
+}
+
+// The whole file is rewritten on every change, behind a lock file next to it
+export class JsonTokenStore implements TokenStore {
+  private filePath: string;
+  private lockPath: string;
+
+  constructor(filePath: string) {
+    this.filePath = filePath;
+    this.lockPath = getJsonLockPath(filePath);
+  }
+
+  private async withLock<T>(fn: () => Promise<T>): Promise<T> {
+    await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+    return withFileLock(this.lockPath, fn);
+  }
+
+  // Readers run alongside each other but never while a writer holds the lock
+  private async withSharedLock<T>(fn: () => Promise<T>): Promise<T> {
+    await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+    return withSharedFileLock(this.lockPath, fn);
+  }
+
+  private async load(): Promise<UserTokensDatabase> {
+    try {
+      const data = await fs.readFile(this.filePath, 'utf-8');
+      return JSON.parse(data);
+    } catch (error: any) {
+      if (error.code === 'ENOENT') {
+        return {};
+      }
+      throw error;
+    }
+  }
+
+  private async save(tokens: UserTokensDatabase): Promise<void> {
+    // Write to temp file first, then atomic rename
+    const tempFile = this.filePath + '.tmp';
+    await fs.writeFile(tempFile, JSON.stringify(tokens, null, 2), { mode: 0o600 });
+    await fs.rename(tempFile, this.filePath);
+
+    // Ensure restrictive permissions on final file
+    await fs.chmod(this.filePath, 0o600);
+  }
+
+  async get(discordUserId: string): Promise<UserTokenData | null> {
+    const tokens = await this.withSharedLock(() => this.load());
+    return tokens[discordUserId] || null;
+  }
+
+  async list(): Promise<UserTokenData[]> {
+    return Object.values(await this.withSharedLock(() => this.load()));
+  }
+
+  async put(data: UserTokenData): Promise<void> {
+    await this.withLock(async () => {
+      const tokens = await this.load();
+      tokens[data.discordUserId] = data;
+      await this.save(tokens);
+    });
+  }
+
+  async update(
+    discordUserId: string,
+    changes: Partial<UserTokenData>,
+    check?: (current: UserTokenData) => boolean
+  ): Promise<UserTokenData | null> {
+    return await this.withLock(async () => {
+      const tokens = await this.load();
+      if (!tokens[discordUserId] || (check && !check(tokens[discordUserId]))) {
+        return null;
+      }
+
+      tokens[discordUserId] = { ...tokens[discordUserId], ...changes, discordUserId };
+      await this.save(tokens);
+      return tokens[discordUserId];
+    });
+  }
+
+  async remove(discordUserId: string): Promise<boolean> {
+    return await this.withLock(async () => {
+      const tokens = await this.load();
+      if (!tokens[discordUserId]) {
+        return false;
+      }
+
+      delete tokens[discordUserId];
+      await this.save(tokens);
+      return true;
+    });
+  }
+
+  async updateEach(fn: (data: UserTokenData) => UserTokenData | null): Promise<number> {
+    return await this.withLock(async () => {
+      const tokens = await this.load();
+      let changed = 0;
+
+      for (const [discordUserId, data] of Object.entries(tokens)) {
+        const updated = fn(data);
+        if (updated) {
+          tokens[discordUserId] = updated;
+          changed++;
+        }
+      }
+
+      if (changed > 0) {
+        await this.save(tokens);
+      }
+      return changed;
+    });
+  }
+
+  async close(): Promise<void> {
+    // Nothing stays open between calls
+  }
+}
@@ -0,0 +1,95 @@
+import { describe, it, expect, jest, afterEach } from '@jest/globals';
+import crypto from 'crypto';
+import { Readable } from 'stream';
+import { createLfsObject, createLfsObjectFromStream, createLfsPointer, addLfsAttributes, uploadLfsObjects } from './lfs.js';
+
+describe('LFS - Pointers', () => {
+  it('should describe the content by SHA-256 and size', () => {
+    const content = Buffer.from('large binary');
+    const object = createLfsObject(content);
+
+    expect(object.oid).toBe(crypto.createHash('sha256').update(content).digest('hex'));
+    expect(createLfsPointer(object).toString()).toBe(
+      `version https://git-lfs.github.com/spec/v1\noid sha256:${object.oid}\nsize 12\n`
+    );
+  });
+
+  it('should hash streamed content the same way', async () => {
+    const chunks = [Buffer.from('large '), Buffer.from('binary')];
+    const object = await createLfsObjectFromStream(Readable.from(chunks), () => Readable.from(chunks));
+
+    const expected = createLfsObject(Buffer.concat(chunks));
+    expect(object.oid).toBe(expected.oid);
+    expect(object.size).toBe(expected.size);
+  });
+});
+
+describe('LFS - .gitattributes', () => {
+  it('should add one anchored rule per file', () => {
+    expect(addLfsAttributes('', ['assets/video.mp4', 'my model.bin'])).toBe(
+      '/assets/video.mp4 filter=lfs diff=lfs merge=lfs -text\n' +
+      '/my[[:space:]]model.bin filter=lfs diff=lfs merge=lfs -text\n'
+    );
+  });
+
+  it('should keep existing rules and not duplicate them', () => {
+    const existing = '*.sh text eol=lf\n/data.bin filter=lfs diff=lfs merge=lfs -text\n';
+    expect(addLfsAttributes(existing, ['data.bin'])).toBe(existing);
+    expect(addLfsAttributes(existing, ['other.bin'])).toBe(
+      existing + '/other.bin filter=lfs diff=lfs merge=lfs -text\n'
+    );
+  });
+});
+
+describe('LFS - Batch upload', () => {
+  const fetchMock = jest.fn<typeof fetch>();
+  const originalFetch = global.fetch;
+
+  afterEach(() => {
+    global.fetch = originalFetch;
+    fetchMock.mockReset();
+  });
+
+  const jsonResponse = (body: unknown) => new Response(JSON.stringify(body), { status: 200 });
+
+  it('should upload only objects the server asks for', async () => {
+    const missing = createLfsObject(Buffer.from('new'));
+    const stored = createLfsObject(Buffer.from('old'));
+
+    fetchMock
+      .mockResolvedValueOnce(jsonResponse({
+        objects: [
+          { oid: missing.oid, size: missing.size, actions: { upload: { href: 'https://lfs.test/up', header: { 'X-Sig': '1' } } } },
+          { oid: stored.oid, size: stored.size },
+        ],
+      }))
+      .mockResolvedValueOnce(new Response(null, { status: 200 }));
+    global.fetch = fetchMock;
+
+    await uploadLfsObjects('octo', 'repo', 'ghp_token', [missing, stored]);
+
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    const [batchUrl, batchInit] = fetchMock.mock.calls[0];
+    expect(batchUrl).toBe('https://github.com/octo/repo.git/info/lfs/objects/batch');
+    expect(JSON.parse(batchInit!.body as string).operation).toBe('upload');
+
+    const [uploadUrl, uploadInit] = fetchMock.mock.calls[1];
+    expect(uploadUrl).toBe('https://lfs.test/up');
+    expect(uploadInit!.method).toBe('PUT');
+    expect((uploadInit!.headers as Record<string, string>)['X-Sig']).toBe('1');
+    expect((uploadInit!.headers as Record<string, string>)['Content-Length']).toBe('3');
+    // The body is a stream of the object, not a copy of it
+    expect(uploadInit!.body).toBeInstanceOf(ReadableStream);
+    expect(await new Response(uploadInit!.body).text()).toBe('new');
+  });
+
+  it('should fail when the server rejects an object', async () => {
+    const object = createLfsObject(Buffer.from('x'));
+    fetchMock.mockResolvedValueOnce(jsonResponse({
+      objects: [{ oid: object.oid, size: object.size, error: { code: 422, message: 'too big' } }],
+    }));
+    global.fetch = fetchMock;
+
+    await expect(uploadLfsObjects('octo', 'repo', 't', [object])).rejects.toThrow('too big');
+  });
+});
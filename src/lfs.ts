@@ -0,0 +1,158 @@
+import crypto from 'crypto';
+import { Readable } from 'stream';
+
+export interface LfsObject {
+  // SHA-256 of the content, as used by the LFS protocol
+  oid: string;
+  size: number;
+  // Content is read again, chunk by chunk, only when the server asks for it
+  stream(): Readable;
+}
+
+interface LfsAction {
+  href: string;
+  header?: Record<string, string>;
+}
+
+interface LfsBatchResponse {
+  objects: {
+    oid: string;
+    size: number;
+    actions?: { upload?: LfsAction; verify?: LfsAction };
+    error?: { code: number; message: string };
+  }[];
+}
+
+const LFS_MEDIA_TYPE = 'application/vnd.git-lfs+json';
+const LFS_BATCH_SIZE = 100; // Objects per batch request
+
+export function createLfsObject(content: Buffer): LfsObject {
+  return {
+    oid: crypto.createHash('sha256').update(content).digest('hex'),
+    size: content.length,
+    stream: () => Readable.from([content]),
+  };
+}
+
+// Hashes large files chunk by chunk instead of loading them whole; stream opens the content again for the upload
+export async function createLfsObjectFromStream(content: Readable, stream: () => Readable): Promise<LfsObject> {
+  const hash = crypto.createHash('sha256');
+  let size = 0;
+  for await (const chunk of content) {
+    hash.update(chunk);
+    size += chunk.length;
+  }
+  return { oid: hash.digest('hex'), size, stream };
+}
+
+// The small text file committed to git in place of the real content
+export function createLfsPointer(object: LfsObject): Buffer {
+  return Buffer.from(
+    `version https://git-lfs.github.com/spec/v1\n` +
+    `oid sha256:${object.oid}\n` +
+    `size ${object.size}\n`
+  );
+}
+
+function toAttributesPattern(filePath: string): string {
+  // Spaces separate pattern and attributes, so they have to be written as a class
+  return '/' + filePath.replace(/ /g, '[[:space:]]');
+}
+
+export function addLfsAttributes(existing: string, filePaths: string[]): string {
+  const lines = existing ? existing.replace(/\n+$/, '').split('\n') : [];
+  const patterns = new Set(lines.map(line => line.trim().split(/\s+/)[0]));
+
+  for (const filePath of filePaths) {
+    const pattern = toAttributesPattern(filePath);
+    if (!patterns.has(pattern)) {
+      lines.push(`${pattern} filter=lfs diff=lfs merge=lfs -text`);
+      patterns.add(pattern);
+    }
+  }
+
+  return lines.join('\n') + '\n';
+}
+
+async function lfsRequest(url: string, token: string, body: unknown): Promise<LfsBatchResponse> {
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: {
+      Accept: LFS_MEDIA_TYPE,
+      'Content-Type': LFS_MEDIA_TYPE,
+      Authorization: `Basic ${Buffer.from(`x-access-token:${token}`).toString('base64')}`,
+    },
+    body: JSON.stringify(body),
+  });
+
+  if (!response.ok) {
+    throw new Error(`LFS request failed: HTTP ${response.status}`);
+  }
+  return await response.json() as LfsBatchResponse;
+}
+
+export async function uploadLfsObjects(
+  owner: string,
+  repo: string,
+  token: string,
+  objects: LfsObject[],
+  progressCallback?: (current: number, total: number) => Promise<void>
+): Promise<void> {
+  const batchUrl = `https://github.com/${owner}/${repo}.git/info/lfs/objects/batch`;
+  const byOid = new Map(objects.map(object => [object.oid, object]));
+  let done = 0;
+
+  for (let i = 0; i < objects.length; i += LFS_BATCH_SIZE) {
+    const batch = objects.slice(i, i + LFS_BATCH_SIZE);
+    const response = await lfsRequest(batchUrl, token, {
+      operation: 'upload',
+      transfers: ['basic'],
+      objects: batch.map(({ oid, size }) => ({ oid, size })),
+    });
+
+    for (const item of response.objects) {
+      if (item.error) {
+        throw new Error(`LFS rejected object ${item.oid}: ${item.error.message}`);
+      }
+
+      // No upload action means the server already has the object
+      const upload = item.actions?.upload;
+      if (upload) {
+        const object = byOid.get(item.oid)!;
+        // Streamed from the source (the archive's temp file for uploads), never buffered whole.
+        // Node requires duplex for stream bodies; the DOM typings don't know the option yet.
+        const init: RequestInit & { duplex: 'half' } = {
+          method: 'PUT',
+          headers: {
+            ...upload.header,
+            'Content-Type': 'application/octet-stream',
+            'Content-Length': String(object.size),
+          },
+          body: Readable.toWeb(object.stream()) as ReadableStream<Uint8Array>,
+          duplex: 'half',
+        };
+        const result = await fetch(upload.href, init);
+        if (!result.ok) {
+          throw new Error(`LFS upload failed for ${item.oid}: HTTP ${result.status}`);
+        }
+      }
+
+      const verify = item.actions?.verify;
+      if (verify) {
+        const result = await fetch(verify.href, {
+          method: 'POST',
+          headers: { ...verify.header, Accept: LFS_MEDIA_TYPE, 'Content-Type': LFS_MEDIA_TYPE },
+          body: JSON.stringify({ oid: item.oid, size: item.size }),
+        });
+        if (!result.ok) {
+          throw new Error(`LFS verification failed for ${item.oid}: HTTP ${result.status}`);
+        }
+      }
+
+      done++;
+      if (progressCallback) {
+        await progressCallback(done, objects.length);
+      }
+    }
+  }
+}
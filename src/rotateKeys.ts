@@ -0,0 +1,33 @@
+// Re-encrypts every stored token (JSON file or SQLite, per TOKEN_STORE) with the current ENCRYPTION_SECRET.
+// Usage: move the old secret to ENCRYPTION_PREVIOUS_SECRETS, set the new one
+// in ENCRYPTION_SECRET and run `npm run rotate-keys`.
+import { initEncryption, getCurrentKeyId } from './encryption.js';
+import { rotateUserTokens, closeTokenStore } from './userTokens.js';
+
+async function main(): Promise<void> {
+  await initEncryption();
+  const keyId = getCurrentKeyId();
+
+  console.log(`🔑 Re-criptografando tokens com a chave ${keyId}...`);
+  const result = await rotateUserTokens();
+
+  console.log(`✅ ${result.rotated} token(s) re-criptografado(s), ${result.unchanged} já usavam a chave atual`);
+
+  if (result.failed.length > 0) {
+    console.error(
+      `❌ ${result.failed.length} token(s) não puderam ser descriptografados com as chaves configuradas: ` +
+      result.failed.join(', ')
+    );
+    console.error('   Inclua a chave antiga em ENCRYPTION_PREVIOUS_SECRETS e rode novamente.');
+    process.exitCode = 1;
+  } else {
+    console.log('   As chaves antigas já podem ser removidas de ENCRYPTION_PREVIOUS_SECRETS.');
+  }
+
+  await closeTokenStore();
+}
+
+main().catch(error => {
+  console.error('❌ Falha ao rotacionar as chaves:', error.message);
+  process.exitCode = 1;
+});
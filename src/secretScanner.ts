@@ -0,0 +1,137 @@
+export interface SecretFinding {
+  path: string;
+  // 1-based line number, 0 when the finding applies to the whole file
+  line: number;
+  type: string;
+  // Masked excerpt of the matched value, safe to show in Discord
+  preview: string;
+}
+
+interface SecretPattern {
+  type: string;
+  regex: RegExp;
+}
+
+const SECRET_PATTERNS: SecretPattern[] = [
+  { type: 'Token do GitHub', regex: /\b(?:gh[pousr]_[A-Za-z0-9]{36,}|github_pat_[A-Za-z0-9_]{80,})\b/ },
+  { type: 'Token de bot do Discord', regex: /\b[MNO][A-Za-z0-9_-]{23,25}\.[A-Za-z0-9_-]{6}\.[A-Za-z0-9_-]{27,}\b/ },
+  { type: 'Chave de acesso AWS', regex: /\b(?:AKIA|ASIA)[0-9A-Z]{16}\b/ },
+  { type: 'Chave secreta AWS', regex: /aws_secret_access_key\s*[=:]\s*["']?[A-Za-z0-9/+]{40}\b/i },
+  { type: 'Token do Slack', regex: /\bxox[abposr]-[A-Za-z0-9-]{10,}\b/ },
+  { type: 'Webhook do Slack', regex: /https:\/\/hooks\.slack\.com\/services\/[A-Za-z0-9/]+/ },
+  { type: 'Chave privada', regex: /-----BEGIN (?:[A-Z]+ )?PRIVATE KEY-----/ },
+];
+
+const MAX_SCAN_SIZE = 1024 * 1024; // Larger files are assumed to be data, not config
+const MIN_ENTROPY_LENGTH = 32; // Shorter strings produce too many false positives
+const ENTROPY_THRESHOLD = 4.5; // Bits per character, typical of random base64 keys
+
+// Files full of hashes that would always look like high-entropy secrets
+const ENTROPY_SKIPPED_FILES = [
+  /(^|\/)package-lock\.json$/,
+  /(^|\/)yarn\.lock$/,
+  /(^|\/)pnpm-lock\.yaml$/,
+  /\.min\.(js|css)$/,
+  /\.map$/,
+  /\.svg$/,
+];
+
+// Quoted or assigned values made only of key-like characters
+const CANDIDATE_VALUE = /(?:["'`]|[=:]\s*)([A-Za-z0-9+/_=-]{32,})(?=["'`]|\s|$)/g;
+
+export function isEnvFile(path: string): boolean {
+  const name = path.split('/').pop()!.toLowerCase();
+  if (name !== '.env' && !name.startsWith('.env.')) return false;
+
+  // Templates are meant to be committed
+  return !/\.(example|sample|template|dist)$/.test(name);
+}
+
+export function shannonEntropy(value: string): number {
+  const counts = new Map<string, number>();
+  for (const char of value) {
+    counts.set(char, (counts.get(char) || 0) + 1);
+  }
+
+  let entropy = 0;
+  for (const count of counts.values()) {
+    const probability = count / value.length;
+    entropy -= probability * Math.log2(probability);
+  }
+  return entropy;
+}
+
+export function isBinaryContent(content: Buffer): boolean {
+  // Same heuristic as git: a NUL byte in the first 8000 bytes
+  return content.subarray(0, 8000).includes(0);
+}
+
+export function maskSecret(value: string): string {
+  if (value.length <= 8) return '*'.repeat(value.length);
+  return `${value.substring(0, 4)}${'*'.repeat(Math.min(value.length - 4, 12))}`;
+}
+
+export function scanFileForSecrets(path: string, content: Buffer): SecretFinding[] {
+  const findings: SecretFinding[] = [];
+
+  if (isEnvFile(path)) {
+    findings.push({ path, line: 0, type: 'Arquivo .env', preview: path.split('/').pop()! });
+  }
+
+  if (content.length > MAX_SCAN_SIZE || isBinaryContent(content)) {
+    return findings;
+  }
+
+  const checkEntropy = !ENTROPY_SKIPPED_FILES.some(pattern => pattern.test(path));
+  const lines = content.toString('utf-8').split(/\r?\n/);
+
+  lines.forEach((text, index) => {
+    let matched = false;
+
+    for (const { type, regex } of SECRET_PATTERNS) {
+      const match = text.match(regex);
+      if (match) {
+        findings.push({ path, line: index + 1, type, preview: maskSecret(match[0]) });
+        matched = true;
+      }
+    }
+
+    if (matched || !checkEntropy || text.length < MIN_ENTROPY_LENGTH) return;
+
+    for (const candidate of text.matchAll(CANDIDATE_VALUE)) {
+      const value = candidate[1];
+      if (shannonEntropy(value) >= ENTROPY_THRESHOLD) {
+        findings.push({ path, line: index + 1, type: 'Texto de alta entropia', preview: maskSecret(value) });
+        break;
+      }
+    }
+  });
+
+  return findings;
+}
+
+export async function scanFilesForSecrets(
+  files: { path: string; size: number; read(): Promise<Buffer> }[]
+): Promise<SecretFinding[]> {
+  const findings: SecretFinding[] = [];
+
+  // One file in memory at a time; content the scanner would skip anyway is never loaded
+  for (const file of files) {
+    const content = file.size > MAX_SCAN_SIZE ? Buffer.alloc(0) : await file.read();
+    findings.push(...scanFileForSecrets(file.path, content));
+  }
+
+  return findings;
+}
+
+export function formatSecretFindings(findings: SecretFinding[], limit: number = 10): string {
+  let message = findings
+    .slice(0, limit)
+    .map(finding => `• \`${finding.path}${finding.line ? `:${finding.line}` : ''}\` - ${finding.type} (\`${finding.preview}\`)`)
+    .join('\n');
+
+  if (findings.length > limit) {
+    message += `\n… e mais ${findings.length - limit} ocorrência(s)`;
+  }
+  return message + '\n';
+}
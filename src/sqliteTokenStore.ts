@@ -0,0 +1,195 @@
+import Database from 'better-sqlite3';
+import { promises as fs, chmodSync, closeSync, mkdirSync, openSync } from 'fs';
+import path from 'path';
+import { withSharedFileLock } from './fileLock.js';
+import { getJsonLockPath } from './jsonTokenStore.js';
+import { TokenStore, UserTokenData } from './tokenStore.js';
+import { TokenHealth } from './tokenHealth.js';
+
+interface TokenRow {
+  discord_user_id: string;
+  github_token: string;
+  github_username: string | null;
+  registered_at: string;
+  health: string;
+}
+
+const BUSY_TIMEOUT = 5000; // Same wait as the JSON lock before giving up
+
+function toRow(data: UserTokenData): TokenRow {
+  const { discordUserId, githubToken, githubUsername, registeredAt, ...health } = data;
+  return {
+    discord_user_id: discordUserId,
+    github_token: githubToken,
+    github_username: githubUsername ?? null,
+    registered_at: registeredAt,
+    health: JSON.stringify(health),
+  };
+}
+
+function fromRow(row: TokenRow): UserTokenData {
+  const health: TokenHealth = JSON.parse(row.health);
+  return {
+    discordUserId: row.discord_user_id,
+    githubToken: row.github_token,
+    ...(row.github_username !== null && { githubUsername: row.github_username }),
+    registeredAt: row.registered_at,
+    ...health,
+  };
+}
+
+// Each change touches one row, and WAL mode lets several bot instances share the file
+export class SqliteTokenStore implements TokenStore {
+  private db: Database.Database;
+
+  constructor(filePath: string) {
+    mkdirSync(path.dirname(filePath), { recursive: true });
+    // Created owner-only before SQLite opens it; the -wal and -shm files copy its permissions
+    closeSync(openSync(filePath, 'a', 0o600));
+    chmodSync(filePath, 0o600);
+
+    this.db = new Database(filePath, { timeout: BUSY_TIMEOUT });
+    this.db.pragma('journal_mode = WAL');
+    for (const suffix of ['-wal', '-shm']) {
+      try {
+        chmodSync(filePath + suffix, 0o600);
+      } catch (error: any) {
+        if (error.code !== 'ENOENT') throw error;
+      }
+    }
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS user_tokens (
+        discord_user_id TEXT PRIMARY KEY,
+        github_token TEXT NOT NULL,
+        github_username TEXT,
+        registered_at TEXT NOT NULL,
+        health TEXT NOT NULL DEFAULT '{}'
+      )
+    `);
+  }
+
+  private getRow(discordUserId: string): TokenRow | undefined {
+    return this.db
+      .prepare('SELECT * FROM user_tokens WHERE discord_user_id = ?')
+      .get(discordUserId) as TokenRow | undefined;
+  }
+
+  private putRow(row: TokenRow): void {
+    this.db.prepare(`
+      INSERT OR REPLACE INTO user_tokens (discord_user_id, github_token, github_username, registered_at, health)
+      VALUES (@discord_user_id, @github_token, @github_username, @registered_at, @health)
+    `).run(row);
+  }
+
+  async get(discordUserId: string): Promise<UserTokenData | null> {
+    const row = this.getRow(discordUserId);
+    return row ? fromRow(row) : null;
+  }
+
+  async list(): Promise<UserTokenData[]> {
+    const rows = this.db.prepare('SELECT * FROM user_tokens ORDER BY registered_at').all() as TokenRow[];
+    return rows.map(fromRow);
+  }
+
+  async put(data: UserTokenData): Promise<void> {
+    this.putRow(toRow(data));
+  }
+
+  async update(
+    discordUserId: string,
+    changes: Partial<UserTokenData>,
+    check?: (current: UserTokenData) => boolean
+  ): Promise<UserTokenData | null> {
+    // IMMEDIATE takes the write lock up front, so other instances cannot interleave
+    return this.db.transaction(() => {
+      const row = this.getRow(discordUserId);
+      if (!row) {
+        return null;
+      }
+
+      const current = fromRow(row);
+      if (check && !check(current)) {
+        return null;
+      }
+
+      const updated = { ...current, ...changes, discordUserId };
+      this.putRow(toRow(updated));
+      return updated;
+    }).immediate();
+  }
+
+  async remove(discordUserId: string): Promise<boolean> {
+    const result = this.db.prepare('DELETE FROM user_tokens WHERE discord_user_id = ?').run(discordUserId);
+    return result.changes > 0;
+  }
+
+  async updateEach(fn: (data: UserTokenData) => UserTokenData | null): Promise<number> {
+    return this.db.transaction(() => {
+      const rows = this.db.prepare('SELECT * FROM user_tokens').all() as TokenRow[];
+      let changed = 0;
+
+      for (const row of rows) {
+        const updated = fn(fromRow(row));
+        if (updated) {
+          this.putRow(toRow({ ...updated, discordUserId: row.discord_user_id }));
+          changed++;
+        }
+      }
+      return changed;
+    }).immediate();
+  }
+
+  // Imports user_tokens.json into an empty database and keeps the file as .migrated.
+  // Entries are copied as they are, so tokens stay encrypted with the same keys.
+  async migrateFromJson(jsonPath: string): Promise<number> {
+    // A process still on the JSON backend cannot write until the file is imported and renamed
+    try {
+      return await withSharedFileLock(getJsonLockPath(jsonPath), () => this.importJson(jsonPath));
+    } catch (error: any) {
+      // No data/ directory means there is no JSON file either
+      if (error.code === 'ENOENT') {
+        return 0;
+      }
+      throw error;
+    }
+  }
+
+  private async importJson(jsonPath: string): Promise<number> {
+    let entries: UserTokenData[];
+    try {
+      entries = Object.values(JSON.parse(await fs.readFile(jsonPath, 'utf-8')));
+    } catch (error: any) {
+      if (error.code === 'ENOENT') {
+        return 0;
+      }
+      throw error;
+    }
+
+    let skipped = false;
+    const imported = this.db.transaction(() => {
+      const { count } = this.db.prepare('SELECT COUNT(*) AS count FROM user_tokens').get() as { count: number };
+      // Another instance migrated first, or the database is already in use
+      if (count > 0) {
+        skipped = true;
+        return 0;
+      }
+
+      entries.forEach(entry => this.putRow(toRow(entry)));
+      return entries.length;
+    }).immediate();
+
+    if (skipped) {
+      console.warn(`⚠️ ${path.basename(jsonPath)} não foi importado: o banco SQLite já tem tokens. Remova ou renomeie o arquivo`);
+      return 0;
+    }
+
+    if (imported > 0) {
+      await fs.rename(jsonPath, jsonPath + '.migrated').catch(() => {});
+    }
+    return imported;
+  }
+
+  async close(): Promise<void> {
+    this.db.close();
+  }
+}
@@ -0,0 +1,67 @@
+import { promises as fs, rmSync } from 'fs';
+import os from 'os';
+import path from 'path';
+import crypto from 'crypto';
+
+const TEMP_DIR = path.join(os.tmpdir(), 'discord-github-bot');
+const STALE_TEMP_AGE = 60 * 60 * 1000; // Leftovers older than 1 hour come from a crashed process
+
+// Temp files created by this process, removed on shutdown if still around
+const activeTempFiles = new Set<string>();
+
+export async function createTempFile(prefix: string): Promise<string> {
+  await fs.mkdir(TEMP_DIR, { recursive: true, mode: 0o700 });
+  const tempPath = path.join(TEMP_DIR, `${prefix}-${process.pid}-${crypto.randomUUID()}`);
+  activeTempFiles.add(tempPath);
+  return tempPath;
+}
+
+export async function removeTempFile(tempPath: string): Promise<void> {
+  activeTempFiles.delete(tempPath);
+  await fs.rm(tempPath, { force: true });
+}
+
+export function getActiveTempFileCount(): number {
+  return activeTempFiles.size;
+}
+
+// Synchronous so it can run from process 'exit' handlers
+export function removeAllTempFilesSync(): void {
+  for (const tempPath of activeTempFiles) {
+    try {
+      rmSync(tempPath, { force: true });
+    } catch {
+      // Best effort during shutdown
+    }
+  }
+  activeTempFiles.clear();
+}
+
+export async function cleanupStaleTempFiles(maxAge: number = STALE_TEMP_AGE): Promise<number> {
+  let removed = 0;
+
+  let names: string[];
+  try {
+    names = await fs.readdir(TEMP_DIR);
+  } catch (error: any) {
+    if (error.code === 'ENOENT') return 0;
+    throw error;
+  }
+
+  for (const name of names) {
+    const tempPath = path.join(TEMP_DIR, name);
+    if (activeTempFiles.has(tempPath)) continue;
+
+    try {
+      const stats = await fs.stat(tempPath);
+      if (Date.now() - stats.mtimeMs > maxAge) {
+        await fs.rm(tempPath, { force: true });
+        removed++;
+      }
+    } catch {
+      // Removed by someone else in the meantime
+    }
+  }
+
+  return removed;
+}
@@ -0,0 +1,58 @@
+import { describe, it, expect } from '@jest/globals';
+import {
+  parseTokenExpiration,
+  needsVerification,
+  isExpiringSoon,
+  getTokenNotice,
+  TOKEN_RECHECK_INTERVAL,
+} from './tokenHealth.js';
+
+const NOW = Date.parse('2026-10-19T12:00:00.000Z');
+const DAY = 24 * 60 * 60 * 1000;
+const iso = (offset: number) => new Date(NOW + offset).toISOString();
+
+describe('Token Health - Expiration header', () => {
+  it('should parse the formats GitHub sends', () => {
+    expect(parseTokenExpiration('2026-11-18 12:00:00 UTC')).toBe('2026-11-18T12:00:00.000Z');
+    expect(parseTokenExpiration('2026-11-18 09:00:00 -0300')).toBe('2026-11-18T12:00:00.000Z');
+  });
+
+  it('should return null for missing or unknown values', () => {
+    expect(parseTokenExpiration(undefined)).toBeNull();
+    expect(parseTokenExpiration('never')).toBeNull();
+  });
+});
+
+describe('Token Health - Verification schedule', () => {
+  it('should verify tokens never checked or checked too long ago', () => {
+    expect(needsVerification({}, NOW)).toBe(true);
+    expect(needsVerification({ lastVerifiedAt: iso(-TOKEN_RECHECK_INTERVAL) }, NOW)).toBe(true);
+    expect(needsVerification({ lastVerifiedAt: iso(-60 * 1000) }, NOW)).toBe(false);
+  });
+
+  it('should not verify tokens already known to be invalid', () => {
+    expect(needsVerification({ invalidSince: iso(-DAY) }, NOW)).toBe(false);
+  });
+});
+
+describe('Token Health - Notices', () => {
+  it('should warn once per expiry date', () => {
+    const expiresAt = iso(3 * DAY);
+    expect(isExpiringSoon({ expiresAt }, NOW)).toBe(true);
+    expect(getTokenNotice({ expiresAt }, NOW)).toBe('expiring');
+    expect(getTokenNotice({ expiresAt, expiryWarningFor: expiresAt }, NOW)).toBeNull();
+
+    // A renewed token with a new date gets its own warning later
+    expect(getTokenNotice({ expiresAt: iso(6 * DAY), expiryWarningFor: expiresAt }, NOW)).toBe('expiring');
+  });
+
+  it('should not warn about distant or missing expiry dates', () => {
+    expect(getTokenNotice({ expiresAt: iso(30 * DAY) }, NOW)).toBeNull();
+    expect(getTokenNotice({ expiresAt: null }, NOW)).toBeNull();
+  });
+
+  it('should report invalid tokens once', () => {
+    expect(getTokenNotice({ invalidSince: iso(0), expiresAt: iso(DAY) }, NOW)).toBe('invalid');
+    expect(getTokenNotice({ invalidSince: iso(0), invalidNoticeSent: true }, NOW)).toBeNull();
+  });
+});
@@ -0,0 +1,66 @@
+export const TOKEN_RECHECK_INTERVAL = 12 * 60 * 60 * 1000; // Each stored token is re-verified twice a day
+export const EXPIRY_WARNING_WINDOW = 7 * 24 * 60 * 60 * 1000; // Warn a week before the token expires
+
+// classic: ghp_ PATs with scopes, fine-grained: github_pat_ with per-repository permissions,
+// oauth: tokens from the browser login (device flow)
+export type TokenType = 'classic' | 'fine-grained' | 'oauth';
+
+export interface TokenHealth {
+  tokenType?: TokenType;
+  scopes?: string[];
+  // ISO date from GitHub's expiration header, null for tokens without expiry
+  expiresAt?: string | null;
+  lastVerifiedAt?: string;
+  // Set when GitHub rejected the token (revoked, expired or missing scope)
+  invalidSince?: string | null;
+  invalidReason?: string | null;
+  // Expiry date the last warning was sent for, so each expiry is announced once
+  expiryWarningFor?: string | null;
+  invalidNoticeSent?: boolean;
+}
+
+export type TokenNotice = 'invalid' | 'expiring' | null;
+
+export function getTokenType(token: string): TokenType {
+  if (token.startsWith('github_pat_')) return 'fine-grained';
+  if (token.startsWith('gho_')) return 'oauth';
+  return 'classic';
+}
+
+// GitHub sends e.g. "2026-11-18 12:00:00 UTC" in github-authentication-token-expiration
+export function parseTokenExpiration(header: string | undefined): string | null {
+  if (!header) return null;
+
+  const match = header.trim().match(/^(\d{4}-\d{2}-\d{2})[ T](\d{2}:\d{2}:\d{2})\s*(UTC|[+-]\d{2}:?\d{2})?$/);
+  if (!match) return null;
+
+  const [, date, time, zone] = match;
+  const offset = !zone || zone === 'UTC' ? 'Z' : zone.replace(/^([+-]\d{2})(\d{2})$/, '$1:$2');
+  const parsed = new Date(`${date}T${time}${offset}`);
+  return isNaN(parsed.getTime()) ? null : parsed.toISOString();
+}
+
+export function needsVerification(health: TokenHealth, now: number = Date.now()): boolean {
+  // Invalid tokens stay invalid until the user logs in again
+  if (health.invalidSince) return false;
+  if (!health.lastVerifiedAt) return true;
+  return now - Date.parse(health.lastVerifiedAt) >= TOKEN_RECHECK_INTERVAL;
+}
+
+export function isExpiringSoon(health: TokenHealth, now: number = Date.now()): boolean {
+  if (!health.expiresAt) return false;
+  return Date.parse(health.expiresAt) - now <= EXPIRY_WARNING_WINDOW;
+}
+
+// Which DM, if any, the user should get for the current state of their token
+export function getTokenNotice(health: TokenHealth, now: number = Date.now()): TokenNotice {
+  if (health.invalidSince) {
+    return health.invalidNoticeSent ? null : 'invalid';
+  }
+
+  if (isExpiringSoon(health, now) && health.expiryWarningFor !== health.expiresAt) {
+    return 'expiring';
+  }
+
+  return null;
+}
@@ -0,0 +1,181 @@
+import { describe, it, expect, beforeEach, afterEach, jest } from '@jest/globals';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { TokenStore, UserTokenData, loadTokenStoreConfig, createTokenStore } from './tokenStore.js';
+import { JsonTokenStore, getJsonLockPath } from './jsonTokenStore.js';
+import { FileLock } from './fileLock.js';
+import { SqliteTokenStore } from './sqliteTokenStore.js';
+
+const entry = (discordUserId: string, extra: Partial<UserTokenData> = {}): UserTokenData => ({
+  discordUserId,
+  githubToken: `v2:abcd1234:iv:tag:${discordUserId}`,
+  githubUsername: `gh-${discordUserId}`,
+  registeredAt: '2026-10-19T12:00:00.000Z',
+  ...extra,
+});
+
+let tempDir: string;
+
+beforeEach(async () => {
+  tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'token-store-test-'));
+});
+
+afterEach(async () => {
+  await fs.rm(tempDir, { recursive: true, force: true });
+});
+
+describe.each([
+  ['JSON', () => new JsonTokenStore(path.join(tempDir, 'user_tokens.json'))],
+  ['SQLite', () => new SqliteTokenStore(path.join(tempDir, 'user_tokens.db'))],
+])('Token Store - %s', (_name, open: () => TokenStore) => {
+  let store: TokenStore;
+
+  beforeEach(() => {
+    store = open();
+  });
+
+  afterEach(async () => {
+    await store.close();
+  });
+
+  it('should store, list and remove entries', async () => {
+    await store.put(entry('user-1', { scopes: ['repo'], expiresAt: null }));
+    await store.put(entry('user-2'));
+
+    expect(await store.get('user-1')).toEqual(entry('user-1', { scopes: ['repo'], expiresAt: null }));
+    expect((await store.list()).map(data => data.discordUserId).sort()).toEqual(['user-1', 'user-2']);
+
+    expect(await store.remove('user-1')).toBe(true);
+    expect(await store.remove('user-1')).toBe(false);
+    expect(await store.get('user-1')).toBeNull();
+  });
+
+  it('should merge updates into existing entries only', async () => {
+    await store.put(entry('user-1', { tokenType: 'classic' }));
+
+    const updated = await store.update('user-1', { invalidSince: '2026-10-20T00:00:00.000Z' });
+    expect(updated).toEqual(entry('user-1', { tokenType: 'classic', invalidSince: '2026-10-20T00:00:00.000Z' }));
+    expect(await store.get('user-1')).toEqual(updated);
+
+    expect(await store.update('missing', { invalidSince: null })).toBeNull();
+    expect(await store.get('missing')).toBeNull();
+  });
+
+  it('should skip updates whose check fails on the current entry', async () => {
+    await store.put(entry('user-1'));
+    const verifiedToken = entry('user-1').githubToken;
+
+    // The user logged in again with another token while the old one was being checked
+    await store.put(entry('user-1', { githubToken: 'v2:abcd1234:iv:tag:new' }));
+    const stillVerified = (current: UserTokenData) => current.githubToken === verifiedToken;
+
+    expect(await store.update('user-1', { invalidSince: '2026-10-20T00:00:00.000Z' }, stillVerified)).toBeNull();
+    expect((await store.get('user-1'))?.invalidSince).toBeUndefined();
+  });
+
+  it('should rewrite only the entries the callback returns', async () => {
+    await store.put(entry('user-1'));
+    await store.put(entry('user-2'));
+
+    const changed = await store.updateEach(data =>
+      data.discordUserId === 'user-2' ? { ...data, githubToken: 'rotated' } : null
+    );
+
+    expect(changed).toBe(1);
+    expect((await store.get('user-1'))?.githubToken).toBe(entry('user-1').githubToken);
+    expect((await store.get('user-2'))?.githubToken).toBe('rotated');
+  });
+
+  it('should keep entries across reopening', async () => {
+    await store.put(entry('user-1'));
+    await store.close();
+
+    store = open();
+    expect(await store.get('user-1')).toEqual(entry('user-1'));
+  });
+});
+
+describe('Token Store - Configuration', () => {
+  it('should default to the JSON file and reject unknown backends', () => {
+    expect(loadTokenStoreConfig({}).type).toBe('json');
+    expect(loadTokenStoreConfig({ TOKEN_STORE: 'SQLite', TOKEN_DB_PATH: '/srv/tokens.db' })).toMatchObject({
+      type: 'sqlite',
+      sqlitePath: '/srv/tokens.db',
+    });
+    expect(() => loadTokenStoreConfig({ TOKEN_STORE: 'redis' })).toThrow('TOKEN_STORE inválido');
+  });
+});
+
+describe('Token Store - Migration', () => {
+  it('should import the JSON file into an empty database once', async () => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    const jsonPath = path.join(tempDir, 'user_tokens.json');
+    const sqlitePath = path.join(tempDir, 'user_tokens.db');
+
+    const json = new JsonTokenStore(jsonPath);
+    await json.put(entry('user-1', { lastVerifiedAt: '2026-10-19T13:00:00.000Z' }));
+    await json.put(entry('user-2', { githubUsername: undefined }));
+
+    const store = await createTokenStore({ type: 'sqlite', jsonPath, sqlitePath });
+    try {
+      expect(await store.get('user-1')).toEqual(entry('user-1', { lastVerifiedAt: '2026-10-19T13:00:00.000Z' }));
+      expect(await store.get('user-2')).toEqual(entry('user-2', { githubUsername: undefined }));
+
+      // The JSON file is kept as a backup and not imported again
+      await expect(fs.access(jsonPath)).rejects.toThrow();
+      await expect(fs.access(jsonPath + '.migrated')).resolves.toBeUndefined();
+    } finally {
+      await store.close();
+      jest.restoreAllMocks();
+    }
+  });
+
+  it('should not overwrite a database that already has entries', async () => {
+    const jsonPath = path.join(tempDir, 'user_tokens.json');
+    const store = new SqliteTokenStore(path.join(tempDir, 'user_tokens.db'));
+
+    await store.put(entry('user-1', { githubUsername: 'current' }));
+    await new JsonTokenStore(jsonPath).put(entry('user-1', { githubUsername: 'stale' }));
+
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+    expect(await store.migrateFromJson(jsonPath)).toBe(0);
+    expect((await store.get('user-1'))?.githubUsername).toBe('current');
+    // The operator is told the file was left alone
+    expect(warn).toHaveBeenCalledWith(expect.stringContaining('user_tokens.json não foi importado'));
+    await expect(fs.access(jsonPath)).resolves.toBeUndefined();
+    await store.close();
+    jest.restoreAllMocks();
+  });
+
+  it('should wait for a JSON writer to finish before reading the file', async () => {
+    const jsonPath = path.join(tempDir, 'user_tokens.json');
+    const store = new SqliteTokenStore(path.join(tempDir, 'user_tokens.db'));
+    await fs.writeFile(jsonPath, JSON.stringify({ 'user-1': entry('user-1') }));
+
+    // A process on the JSON backend in the middle of a write
+    const writer = new FileLock(getJsonLockPath(jsonPath));
+    await writer.acquire();
+    const migration = store.migrateFromJson(jsonPath);
+    await new Promise(resolve => setTimeout(resolve, 200));
+    await fs.writeFile(jsonPath, JSON.stringify({ 'user-1': entry('user-1'), 'user-2': entry('user-2') }));
+    await writer.release();
+
+    expect(await migration).toBe(2);
+    expect(await store.get('user-2')).toEqual(entry('user-2'));
+    await store.close();
+  });
+});
+
+describe('Token Store - SQLite files', () => {
+  it('should keep the database and its WAL files readable by the owner only', async () => {
+    const sqlitePath = path.join(tempDir, 'user_tokens.db');
+    const store = new SqliteTokenStore(sqlitePath);
+    await store.put(entry('user-1'));
+
+    for (const file of [sqlitePath, sqlitePath + '-wal', sqlitePath + '-shm']) {
+      expect((await fs.stat(file)).mode & 0o777).toBe(0o600);
+    }
+    await store.close();
+  });
+});
@@ -0,0 +1,70 @@
+import path from 'path';
+import { TokenHealth } from './tokenHealth.js';
+
+export interface UserTokenData extends TokenHealth {
+  discordUserId: string;
+  // Always encrypted with encryptToken; stores never see the plain token
+  githubToken: string;
+  githubUsername?: string;
+  registeredAt: string;
+}
+
+export type TokenStoreType = 'json' | 'sqlite';
+
+export interface TokenStore {
+  get(discordUserId: string): Promise<UserTokenData | null>;
+  list(): Promise<UserTokenData[]>;
+  put(data: UserTokenData): Promise<void>;
+  // Merges the changes into an existing entry; null when the user has no entry or the
+  // entry no longer passes the check, which runs under the same lock as the write
+  update(
+    discordUserId: string,
+    changes: Partial<UserTokenData>,
+    check?: (current: UserTokenData) => boolean
+  ): Promise<UserTokenData | null>;
+  remove(discordUserId: string): Promise<boolean>;
+  // Rewrites every entry atomically; fn returns null to leave an entry as it is
+  updateEach(fn: (data: UserTokenData) => UserTokenData | null): Promise<number>;
+  close(): Promise<void>;
+}
+
+export interface TokenStoreConfig {
+  type: TokenStoreType;
+  jsonPath: string;
+  sqlitePath: string;
+}
+
+export function loadTokenStoreConfig(env: NodeJS.ProcessEnv = process.env): TokenStoreConfig {
+  const type = (env.TOKEN_STORE || 'json').trim().toLowerCase();
+  if (type !== 'json' && type !== 'sqlite') {
+    throw new Error(`TOKEN_STORE inválido: "${env.TOKEN_STORE}" (use "json" ou "sqlite")`);
+  }
+
+  const dataDir = path.join(process.cwd(), 'data');
+  return {
+    type,
+    jsonPath: path.join(dataDir, 'user_tokens.json'),
+    sqlitePath: env.TOKEN_DB_PATH || path.join(dataDir, 'user_tokens.db'),
+  };
+}
+
+export async function createTokenStore(config: TokenStoreConfig = loadTokenStoreConfig()): Promise<TokenStore> {
+  if (config.type === 'json') {
+    const { JsonTokenStore } = await import('./jsonTokenStore.js');
+    return new JsonTokenStore(config.jsonPath);
+  }
+
+  // Loaded on demand so JSON deployments do not need the native module (an optional dependency)
+  let SqliteTokenStore: typeof import('./sqliteTokenStore.js').SqliteTokenStore;
+  try {
+    ({ SqliteTokenStore } = await import('./sqliteTokenStore.js'));
+  } catch (error: any) {
+    throw new Error(`TOKEN_STORE=sqlite requer o pacote better-sqlite3 (${error.message})`);
+  }
+  const store = new SqliteTokenStore(config.sqlitePath);
+  const migrated = await store.migrateFromJson(config.jsonPath);
+  if (migrated > 0) {
+    console.log(`✅ ${migrated} token(s) migrado(s) de ${path.basename(config.jsonPath)} para o SQLite`);
+  }
+  return store;
+}
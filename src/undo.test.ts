@@ -0,0 +1,50 @@
+import { describe, it, expect } from '@jest/globals';
+import { planUndo, changedPaths, findConflicts, TreeBlob } from './undo.js';
+
+const tree = (entries: Record<string, string | TreeBlob>) => new Map<string, TreeBlob>(
+  Object.entries(entries).map(([path, blob]) => [path, typeof blob === 'string' ? { sha: blob, mode: '100644' } : blob])
+);
+
+describe('Undo - Planning', () => {
+  it('should restore modified files and remove added ones', () => {
+    const plan = planUndo(
+      tree({ 'README.md': 'a1', 'src/app.ts': 'b1', 'docs/old.md': 'c1' }),
+      tree({ 'README.md': 'a1', 'src/app.ts': 'b2', 'src/new.ts': 'd1', 'docs/old.md': 'c1' })
+    );
+
+    expect(plan.restored).toEqual(['src/app.ts']);
+    expect(plan.removed).toEqual(['src/new.ts']);
+    expect(plan.treeItems).toEqual(expect.arrayContaining([
+      { path: 'src/app.ts', mode: '100644', type: 'blob', sha: 'b1' },
+      { path: 'src/new.ts', mode: '100644', type: 'blob', sha: null },
+    ]));
+    expect(plan.treeItems).toHaveLength(2);
+  });
+
+  it('should bring back files deleted by a mirror upload', () => {
+    const plan = planUndo(tree({ 'a.txt': '1', 'b.txt': '2' }), tree({ 'a.txt': '1' }));
+    expect(plan.restored).toEqual(['b.txt']);
+    expect(plan.treeItems).toEqual([{ path: 'b.txt', mode: '100644', type: 'blob', sha: '2' }]);
+  });
+
+  it('should keep the previous file mode', () => {
+    const plan = planUndo(
+      tree({ 'run.sh': { sha: 's1', mode: '100755' } }),
+      tree({ 'run.sh': 's1' })
+    );
+    expect(plan.treeItems).toEqual([{ path: 'run.sh', mode: '100755', type: 'blob', sha: 's1' }]);
+  });
+
+  it('should produce an empty plan for identical trees', () => {
+    const plan = planUndo(tree({ 'a.txt': '1' }), tree({ 'a.txt': '1' }));
+    expect(changedPaths(plan)).toEqual([]);
+  });
+});
+
+describe('Undo - Conflicts', () => {
+  it('should report paths touched again by later commits', () => {
+    expect(findConflicts(['src/b.ts', 'src/a.ts', 'README.md'], ['src/a.ts', 'src/b.ts', 'other.ts']))
+      .toEqual(['src/a.ts', 'src/b.ts']);
+    expect(findConflicts(['src/a.ts'], ['docs/x.md'])).toEqual([]);
+  });
+});
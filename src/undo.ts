@@ -0,0 +1,59 @@
+export type BlobMode = '100644' | '100755' | '120000';
+
+export interface TreeBlob {
+  sha: string;
+  mode: BlobMode;
+}
+
+export interface UndoTreeItem {
+  path: string;
+  mode: BlobMode;
+  type: 'blob';
+  sha: string | null;
+}
+
+export interface UndoPlan {
+  // Changed or removed by the upload, brought back to their previous version
+  restored: string[];
+  // Created by the upload, removed again
+  removed: string[];
+  treeItems: UndoTreeItem[];
+}
+
+// before/after are the blobs of the upload commit's parent and of the upload commit itself
+export function planUndo(before: Map<string, TreeBlob>, after: Map<string, TreeBlob>): UndoPlan {
+  const plan: UndoPlan = { restored: [], removed: [], treeItems: [] };
+
+  for (const [path, blob] of after) {
+    const previous = before.get(path);
+    if (!previous) {
+      plan.removed.push(path);
+      plan.treeItems.push({ path, mode: blob.mode, type: 'blob', sha: null });
+    } else if (previous.sha !== blob.sha || previous.mode !== blob.mode) {
+      plan.restored.push(path);
+      plan.treeItems.push({ path, ...previous, type: 'blob' });
+    }
+  }
+
+  // Files deleted by the upload (mirror mode)
+  for (const [path, previous] of before) {
+    if (!after.has(path)) {
+      plan.restored.push(path);
+      plan.treeItems.push({ path, ...previous, type: 'blob' });
+    }
+  }
+
+  plan.restored.sort();
+  plan.removed.sort();
+  return plan;
+}
+
+export function changedPaths(plan: UndoPlan): string[] {
+  return plan.treeItems.map(item => item.path);
+}
+
+// Paths the upload touched that later commits touched again
+export function findConflicts(uploadPaths: string[], laterPaths: string[]): string[] {
+  const later = new Set(laterPaths);
+  return uploadPaths.filter(path => later.has(path)).sort();
+}
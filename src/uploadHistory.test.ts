@@ -0,0 +1,67 @@
+import { describe, it, expect } from '@jest/globals';
+import { matchesHistoryFilter, paginate, UploadHistoryEntry } from './uploadHistory.js';
+
+const entry = (changes: Partial<UploadHistoryEntry> = {}): UploadHistoryEntry => ({
+  id: '1',
+  command: 'upload',
+  discordUserId: '111',
+  discordUserTag: 'alice',
+  githubUsername: 'alice-gh',
+  guildId: 'guild-1',
+  owner: 'alice-gh',
+  repo: 'meu-projeto',
+  branch: 'main',
+  folder: '',
+  archiveName: 'site.zip',
+  archiveSize: 1024,
+  totalFiles: 3,
+  uploadedFiles: 3,
+  unchangedFiles: 0,
+  deletedFiles: 0,
+  failedFiles: [],
+  commitShas: ['abc1234'],
+  pullRequestUrl: null,
+  status: 'completed',
+  error: null,
+  durationMs: 1500,
+  createdAt: '2026-10-19T12:00:00.000Z',
+  ...changes,
+});
+
+describe('Upload History - Filters', () => {
+  it('should match a repository by name or by owner/name, ignoring case', () => {
+    expect(matchesHistoryFilter(entry(), { repository: 'Meu-Projeto' })).toBe(true);
+    expect(matchesHistoryFilter(entry(), { repository: 'alice-gh/meu-projeto' })).toBe(true);
+    expect(matchesHistoryFilter(entry(), { repository: 'outra-org/meu-projeto' })).toBe(false);
+    expect(matchesHistoryFilter(entry(), { repository: 'outro' })).toBe(false);
+  });
+
+  it('should filter by Discord user', () => {
+    expect(matchesHistoryFilter(entry(), { discordUserId: '111' })).toBe(true);
+    expect(matchesHistoryFilter(entry(), { discordUserId: '222' })).toBe(false);
+    expect(matchesHistoryFilter(entry(), { discordUserId: null })).toBe(true);
+  });
+
+  it('should distinguish any server from direct messages', () => {
+    expect(matchesHistoryFilter(entry(), {})).toBe(true);
+    expect(matchesHistoryFilter(entry(), { guildId: 'guild-1' })).toBe(true);
+    expect(matchesHistoryFilter(entry(), { guildId: 'guild-2' })).toBe(false);
+    expect(matchesHistoryFilter(entry(), { guildId: null })).toBe(false);
+    expect(matchesHistoryFilter(entry({ guildId: null }), { guildId: null })).toBe(true);
+  });
+});
+
+describe('Upload History - Pagination', () => {
+  const items = Array.from({ length: 12 }, (_, i) => i);
+
+  it('should split items into pages', () => {
+    expect(paginate(items, 1, 5)).toEqual({ items: [0, 1, 2, 3, 4], page: 1, totalPages: 3 });
+    expect(paginate(items, 3, 5)).toEqual({ items: [10, 11], page: 3, totalPages: 3 });
+  });
+
+  it('should clamp out of range pages', () => {
+    expect(paginate(items, 0, 5).page).toBe(1);
+    expect(paginate(items, 9, 5).page).toBe(3);
+    expect(paginate([], 1, 5)).toEqual({ items: [], page: 1, totalPages: 1 });
+  });
+});
@@ -0,0 +1,160 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import crypto from 'crypto';
+import { withFileLock } from './fileLock.js';
+
+export type UploadHistoryStatus = 'completed' | 'failed' | 'cancelled';
+
+export interface UploadHistoryEntry {
+  id: string;
+  command: 'upload' | 'enviar-arquivo';
+  discordUserId: string;
+  discordUserTag: string;
+  githubUsername: string | null;
+  // Pushed with the GitHub App's installation token instead of the user's own
+  viaGitHubApp?: boolean;
+  guildId: string | null;
+  owner: string;
+  repo: string;
+  branch: string | null;
+  folder: string;
+  // Archive name for /upload, comma separated file names for /enviar-arquivo
+  archiveName: string;
+  archiveSize: number;
+  totalFiles: number;
+  uploadedFiles: number;
+  unchangedFiles: number;
+  deletedFiles: number;
+  failedFiles: string[];
+  commitShas: string[];
+  pullRequestUrl: string | null;
+  status: UploadHistoryStatus;
+  error: string | null;
+  durationMs: number;
+  createdAt: string;
+  // Set by /desfazer
+  undo?: UploadUndo;
+}
+
+export interface UploadUndo {
+  // reset: branch moved back to the parent commit, revert: new commit restoring the previous files
+  method: 'reset' | 'revert';
+  commitSha: string | null;
+  undoneBy: string;
+  undoneAt: string;
+}
+
+export type NewUploadHistoryEntry = Omit<UploadHistoryEntry, 'id' | 'createdAt' | 'undo'>;
+
+export interface UploadHistoryFilter {
+  // "repo" matches the name under any owner, "owner/repo" matches exactly
+  repository?: string | null;
+  discordUserId?: string | null;
+  // undefined means any server, null means direct messages only
+  guildId?: string | null;
+}
+
+const HISTORY_FILE = path.join(process.cwd(), 'data', 'upload_history.json');
+const LOCK_FILE = path.join(process.cwd(), 'data', 'upload_history.lock');
+const MAX_HISTORY_ENTRIES = 5000; // Oldest entries are dropped past this
+const MAX_STORED_FAILED_FILES = 50;
+
+async function ensureDataDir(): Promise<void> {
+  const dataDir = path.dirname(HISTORY_FILE);
+  try {
+    await fs.access(dataDir);
+  } catch {
+    await fs.mkdir(dataDir, { recursive: true });
+  }
+}
+
+async function loadHistory(): Promise<UploadHistoryEntry[]> {
+  try {
+    await ensureDataDir();
+    const data = await fs.readFile(HISTORY_FILE, 'utf-8');
+    return JSON.parse(data);
+  } catch (error: any) {
+    if (error.code === 'ENOENT') {
+      return [];
+    }
+    throw error;
+  }
+}
+
+async function saveHistory(entries: UploadHistoryEntry[]): Promise<void> {
+  await ensureDataDir();
+
+  // Write to temp file first, then atomic rename
+  const tempFile = HISTORY_FILE + '.tmp';
+  await fs.writeFile(tempFile, JSON.stringify(entries, null, 2), { mode: 0o600 });
+  await fs.rename(tempFile, HISTORY_FILE);
+}
+
+export async function recordUpload(fields: NewUploadHistoryEntry): Promise<UploadHistoryEntry> {
+  const entry: UploadHistoryEntry = {
+    ...fields,
+    failedFiles: fields.failedFiles.slice(0, MAX_STORED_FAILED_FILES),
+    id: crypto.randomUUID(),
+    createdAt: new Date().toISOString(),
+  };
+
+  await withFileLock(LOCK_FILE, async () => {
+    const entries = await loadHistory();
+    entries.push(entry);
+    await saveHistory(entries.slice(-MAX_HISTORY_ENTRIES));
+  });
+
+  return entry;
+}
+
+export async function getUploadHistoryEntry(id: string): Promise<UploadHistoryEntry | null> {
+  const entries = await loadHistory();
+  return entries.find(entry => entry.id === id) || null;
+}
+
+export async function markUploadUndone(id: string, undo: UploadUndo): Promise<void> {
+  await withFileLock(LOCK_FILE, async () => {
+    const entries = await loadHistory();
+    const entry = entries.find(candidate => candidate.id === id);
+    if (!entry) {
+      throw new Error(`Upload history entry not found: ${id}`);
+    }
+
+    entry.undo = undo;
+    await saveHistory(entries);
+  });
+}
+
+// Completed uploads that created a commit and were not undone yet
+export function isUndoable(entry: UploadHistoryEntry): boolean {
+  return entry.status === 'completed' && entry.commitShas.length > 0 && entry.branch !== null && !entry.undo;
+}
+
+export function matchesHistoryFilter(entry: UploadHistoryEntry, filter: UploadHistoryFilter): boolean {
+  if (filter.repository) {
+    const wanted = filter.repository.trim().toLowerCase();
+    const actual = wanted.includes('/') ? `${entry.owner}/${entry.repo}` : entry.repo;
+    if (actual.toLowerCase() !== wanted) return false;
+  }
+
+  if (filter.discordUserId && entry.discordUserId !== filter.discordUserId) return false;
+  if (filter.guildId !== undefined && entry.guildId !== filter.guildId) return false;
+
+  return true;
+}
+
+// Newest first
+export async function queryUploadHistory(filter: UploadHistoryFilter = {}): Promise<UploadHistoryEntry[]> {
+  const entries = await loadHistory();
+  return entries.filter(entry => matchesHistoryFilter(entry, filter)).reverse();
+}
+
+export function paginate<T>(items: T[], page: number, pageSize: number): { items: T[]; page: number; totalPages: number } {
+  const totalPages = Math.max(1, Math.ceil(items.length / pageSize));
+  const current = Math.min(Math.max(1, page), totalPages);
+  return {
+    items: items.slice((current - 1) * pageSize, current * pageSize),
+    page: current,
+    totalPages,
+  };
+}
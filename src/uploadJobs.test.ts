@@ -0,0 +1,92 @@
+import { describe, it, expect } from '@jest/globals';
+import {
+  acquireUploadSlot,
+  releaseUploadSlot,
+  getQueuePosition,
+  getQueueStats,
+  createJobSignal,
+  clearJobSignal,
+  cancelUploadJob,
+} from './uploadJobs.js';
+
+describe('Upload Jobs - Queue', () => {
+  it('should run up to the concurrency limit and queue the rest in order', async () => {
+    const started: string[] = [];
+    const start = (jobId: string) => acquireUploadSlot(jobId).then(() => { started.push(jobId); });
+
+    await start('a');
+    await start('b');
+    const waitingC = start('c');
+    const waitingD = start('d');
+
+    expect(getQueueStats()).toEqual({ running: 2, waiting: 2, limit: 2 });
+    expect(getQueuePosition('c')).toBe(1);
+    expect(getQueuePosition('d')).toBe(2);
+    expect(getQueuePosition('a')).toBe(0);
+
+    releaseUploadSlot('a');
+    await waitingC;
+    expect(started).toEqual(['a', 'b', 'c']);
+    expect(getQueuePosition('d')).toBe(1);
+
+    releaseUploadSlot('b');
+    await waitingD;
+    expect(started).toEqual(['a', 'b', 'c', 'd']);
+
+    releaseUploadSlot('c');
+    releaseUploadSlot('d');
+    expect(getQueueStats()).toEqual({ running: 0, waiting: 0, limit: 2 });
+  });
+
+  it('should report position changes while waiting', async () => {
+    const positions: number[] = [];
+
+    await acquireUploadSlot('x');
+    await acquireUploadSlot('y');
+    const waiting = acquireUploadSlot('z', async position => { positions.push(position); });
+    releaseUploadSlot('x');
+    await waiting;
+
+    expect(positions).toEqual([1]);
+
+    releaseUploadSlot('y');
+    releaseUploadSlot('z');
+  });
+});
+
+describe('Upload Jobs - Cancellation', () => {
+  it('should remove a cancelled job from the queue and reject its wait', async () => {
+    await acquireUploadSlot('r1');
+    await acquireUploadSlot('r2');
+
+    const signal = createJobSignal('w1');
+    const waitingW1 = acquireUploadSlot('w1', undefined, signal);
+    const waitingW2 = acquireUploadSlot('w2');
+    expect(getQueuePosition('w2')).toBe(2);
+
+    expect(cancelUploadJob('w1')).toBe(true);
+    await expect(waitingW1).rejects.toThrow('Upload cancelado pelo usuário');
+    expect(getQueuePosition('w1')).toBe(0);
+    expect(getQueuePosition('w2')).toBe(1);
+
+    releaseUploadSlot('r1');
+    await waitingW2;
+    expect(getQueueStats()).toMatchObject({ running: 2, waiting: 0 });
+
+    releaseUploadSlot('r2');
+    releaseUploadSlot('w2');
+    clearJobSignal('w1');
+  });
+
+  it('should only cancel jobs that are active in this process', () => {
+    expect(cancelUploadJob('unknown')).toBe(false);
+
+    const signal = createJobSignal('once');
+    expect(cancelUploadJob('once')).toBe(true);
+    expect(signal.aborted).toBe(true);
+    expect(cancelUploadJob('once')).toBe(false);
+
+    clearJobSignal('once');
+    expect(cancelUploadJob('once')).toBe(false);
+  });
+});
@@ -0,0 +1,310 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import crypto from 'crypto';
+import { withFileLock } from './fileLock.js';
+
+// Settings for the repository created by criar_repo
+export interface NewRepositoryOptions {
+  isPrivate: boolean;
+  description: string | null;
+  license: string | null;
+  gitignore: string | null;
+}
+
+export interface ZipUploadOptions {
+  folderPath: string;
+  branch: string | null;
+  openPullRequest: boolean;
+  preview: boolean;
+  mirror: boolean;
+  createRepository: boolean;
+  newRepository?: NewRepositoryOptions;
+  organization: string | null;
+  include: string | null;
+  exclude: string | null;
+}
+
+export type UploadJobStatus = 'queued' | 'running' | 'completed' | 'failed' | 'cancelled';
+
+// pending: not sent yet, uploaded: blob exists on GitHub, unchanged: already identical on the branch
+export type UploadFileState = 'pending' | 'uploaded' | 'unchanged';
+
+export interface UploadJobFile {
+  path: string;
+  blobSha: string;
+  state: UploadFileState;
+}
+
+export interface UploadJob {
+  id: string;
+  userId: string;
+  userTag: string;
+  guildId: string | null;
+  // Lets a resumed job edit the original reply while the interaction token is still valid
+  applicationId: string;
+  interactionToken: string;
+  attachment: { name: string; url: string };
+  owner: string;
+  repo: string;
+  // Set when the upload runs as the GitHub App instead of with the user's token
+  installationId: number | null;
+  options: ZipUploadOptions;
+  status: UploadJobStatus;
+  // Set once every confirmation was answered; nothing is written to GitHub before that
+  confirmed: boolean;
+  createdRepository: boolean;
+  // Branches this job created, removed again on rollback
+  createdBranches: string[];
+  pullRequestBranch: string | null;
+  files: UploadJobFile[];
+  commitSha: string | null;
+  error: string | null;
+  attempts: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+interface UploadJobsDatabase {
+  [jobId: string]: UploadJob;
+}
+
+export type NewUploadJob = Pick<
+  UploadJob,
+  | 'userId'
+  | 'userTag'
+  | 'guildId'
+  | 'applicationId'
+  | 'interactionToken'
+  | 'attachment'
+  | 'owner'
+  | 'repo'
+  | 'installationId'
+  | 'options'
+>;
+
+const JOBS_FILE = path.join(process.cwd(), 'data', 'upload_jobs.json');
+const LOCK_FILE = path.join(process.cwd(), 'data', 'upload_jobs.lock');
+const FINISHED_JOB_RETENTION = 7 * 24 * 60 * 60 * 1000; // Keep finished jobs for 7 days
+
+const MAX_CONCURRENT_UPLOADS = Math.max(1, parseInt(process.env.MAX_CONCURRENT_UPLOADS || '', 10) || 2);
+
+async function ensureDataDir(): Promise<void> {
+  const dataDir = path.dirname(JOBS_FILE);
+  try {
+    await fs.access(dataDir);
+  } catch {
+    await fs.mkdir(dataDir, { recursive: true });
+  }
+}
+
+async function loadJobs(): Promise<UploadJobsDatabase> {
+  try {
+    await ensureDataDir();
+    const data = await fs.readFile(JOBS_FILE, 'utf-8');
+    return JSON.parse(data);
+  } catch (error: any) {
+    if (error.code === 'ENOENT') {
+      return {};
+    }
+    throw error;
+  }
+}
+
+async function saveJobs(jobs: UploadJobsDatabase): Promise<void> {
+  await ensureDataDir();
+
+  // Write to temp file first, then atomic rename
+  const tempFile = JOBS_FILE + '.tmp';
+  await fs.writeFile(tempFile, JSON.stringify(jobs, null, 2), { mode: 0o600 });
+  await fs.rename(tempFile, JOBS_FILE);
+}
+
+export function isFinishedJob(job: UploadJob): boolean {
+  return job.status === 'completed' || job.status === 'failed' || job.status === 'cancelled';
+}
+
+export async function createUploadJob(fields: NewUploadJob): Promise<UploadJob> {
+  const now = new Date().toISOString();
+  const job: UploadJob = {
+    ...fields,
+    id: crypto.randomUUID(),
+    status: 'queued',
+    confirmed: false,
+    createdRepository: false,
+    createdBranches: [],
+    pullRequestBranch: null,
+    files: [],
+    commitSha: null,
+    error: null,
+    attempts: 0,
+    createdAt: now,
+    updatedAt: now,
+  };
+
+  await withFileLock(LOCK_FILE, async () => {
+    const jobs = await loadJobs();
+    jobs[job.id] = job;
+    await saveJobs(jobs);
+  });
+
+  return job;
+}
+
+export async function getUploadJob(jobId: string): Promise<UploadJob | null> {
+  const jobs = await loadJobs();
+  return jobs[jobId] || null;
+}
+
+export async function listUploadJobs(filter: (job: UploadJob) => boolean = () => true): Promise<UploadJob[]> {
+  const jobs = await loadJobs();
+  return Object.values(jobs)
+    .filter(filter)
+    .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+}
+
+export async function updateUploadJob(jobId: string, changes: Partial<UploadJob>): Promise<UploadJob> {
+  return await withFileLock(LOCK_FILE, async () => {
+    const jobs = await loadJobs();
+    if (!jobs[jobId]) {
+      throw new Error(`Upload job not found: ${jobId}`);
+    }
+
+    const updated: UploadJob = {
+      ...jobs[jobId],
+      ...changes,
+      id: jobId,
+      updatedAt: new Date().toISOString(),
+    };
+
+    // Per-file state is only needed while the job can still be resumed
+    if (isFinishedJob(updated)) {
+      updated.files = [];
+    }
+
+    jobs[jobId] = updated;
+    await saveJobs(jobs);
+    return updated;
+  });
+}
+
+export async function pruneFinishedJobs(maxAge: number = FINISHED_JOB_RETENTION): Promise<number> {
+  return await withFileLock(LOCK_FILE, async () => {
+    const jobs = await loadJobs();
+    let removed = 0;
+
+    for (const job of Object.values(jobs)) {
+      if (isFinishedJob(job) && Date.now() - Date.parse(job.updatedAt) > maxAge) {
+        delete jobs[job.id];
+        removed++;
+      }
+    }
+
+    if (removed > 0) {
+      await saveJobs(jobs);
+    }
+    return removed;
+  });
+}
+
+interface WaitingJob {
+  jobId: string;
+  start: () => void;
+  onPositionChange?: (position: number) => Promise<void>;
+}
+
+// Global concurrency limit shared by every user
+const runningJobs = new Set<string>();
+const waitingJobs: WaitingJob[] = [];
+
+export function getQueuePosition(jobId: string): number {
+  return waitingJobs.findIndex(waiting => waiting.jobId === jobId) + 1;
+}
+
+export function getQueueStats(): { running: number; waiting: number; limit: number } {
+  return { running: runningJobs.size, waiting: waitingJobs.length, limit: MAX_CONCURRENT_UPLOADS };
+}
+
+function notifyPositions(): void {
+  waitingJobs.forEach((waiting, index) => {
+    waiting.onPositionChange?.(index + 1).catch(() => {
+      // Progress messages are best effort
+    });
+  });
+}
+
+// Rejects with the abort reason if the job is cancelled while still waiting
+export async function acquireUploadSlot(
+  jobId: string,
+  onPositionChange?: (position: number) => Promise<void>,
+  signal?: AbortSignal
+): Promise<void> {
+  signal?.throwIfAborted();
+
+  if (runningJobs.size < MAX_CONCURRENT_UPLOADS && waitingJobs.length === 0) {
+    runningJobs.add(jobId);
+    return;
+  }
+
+  await new Promise<void>((resolve, reject) => {
+    const onAbort = () => {
+      const index = waitingJobs.indexOf(waiting);
+      if (index === -1) return;
+      waitingJobs.splice(index, 1);
+      notifyPositions();
+      reject(signal!.reason);
+    };
+
+    const waiting: WaitingJob = {
+      jobId,
+      start: () => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve();
+      },
+      onPositionChange,
+    };
+
+    signal?.addEventListener('abort', onAbort, { once: true });
+    waitingJobs.push(waiting);
+    notifyPositions();
+  });
+}
+
+export function releaseUploadSlot(jobId: string): void {
+  runningJobs.delete(jobId);
+
+  // A job that gave up while waiting simply leaves the queue
+  const waitingIndex = waitingJobs.findIndex(waiting => waiting.jobId === jobId);
+  if (waitingIndex !== -1) {
+    waitingJobs.splice(waitingIndex, 1);
+  }
+
+  while (runningJobs.size < MAX_CONCURRENT_UPLOADS && waitingJobs.length > 0) {
+    const next = waitingJobs.shift()!;
+    runningJobs.add(next.jobId);
+    next.start();
+  }
+
+  notifyPositions();
+}
+
+// Abort controllers of the jobs this process is running or has queued
+const jobControllers = new Map<string, AbortController>();
+
+export function createJobSignal(jobId: string): AbortSignal {
+  const controller = new AbortController();
+  jobControllers.set(jobId, controller);
+  return controller.signal;
+}
+
+export function clearJobSignal(jobId: string): void {
+  jobControllers.delete(jobId);
+}
+
+// Returns false when the job is not active in this process or was already cancelled
+export function cancelUploadJob(jobId: string): boolean {
+  const controller = jobControllers.get(jobId);
+  if (!controller || controller.signal.aborted) return false;
+
+  controller.abort(new Error('Upload cancelado pelo usuário'));
+  return true;
+}
@@ -1,146 +1,61 @@
-import { promises as fs } from 'fs';
-import path from 'path';
-import { encryptToken, decryptToken } from './encryption.js';
-
-interface UserTokenData {
-  discordUserId: string;
-  githubToken: string;
-  githubUsername?: string;
-  registeredAt: string;
-}
+import { encryptToken, decryptToken, needsReEncryption } from './encryption.js';
+import { TokenHealth } from './tokenHealth.js';
+import { TokenStore, UserTokenData, createTokenStore } from './tokenStore.js';
 
-interface UserTokensDatabase {
-  [discordUserId: string]: UserTokenData;
-}
+export type { UserTokenData } from './tokenStore.js';
 
-const TOKENS_FILE = path.join(process.cwd(), 'data', 'user_tokens.json');
-const LOCK_FILE = path.join(process.cwd(), 'data', 'user_tokens.lock');
-const LOCK_TIMEOUT = 5000; // 5 seconds max wait for lock
-
-// Simple file-based locking mechanism
-class FileLock {
-  private lockPath: string;
-  private acquired: boolean = false;
-  
-  constructor(lockPath: string) {
-    this.lockPath = lockPath;
-  }
-  
-  async acquire(): Promise<void> {
-    const startTime = Date.now();
-    
-    while (Date.now() - startTime < LOCK_TIMEOUT) {
-      try {
-        // Try to create lock file exclusively (fails if exists)
-        await fs.writeFile(this.lockPath, process.pid.toString(), { flag: 'wx' });
-        this.acquired = true;
-        return;
-      } catch (error: any) {
-        if (error.code === 'EEXIST') {
-          // Lock exists, check if it's stale
-          try {
-            const lockContent = await fs.readFile(this.lockPath, 'utf-8');
-            const lockAge = Date.now() - (await fs.stat(this.lockPath)).mtimeMs;
-            
-            // If lock is older than timeout, it's stale - remove it
-            if (lockAge > LOCK_TIMEOUT) {
-              await fs.unlink(this.lockPath).catch(() => {});
-            }
-          } catch {
-            // Lock file disappeared, try again
-          }
-          
-          // Wait a bit before retrying
-          await new Promise(resolve => setTimeout(resolve, 50));
-        } else {
-          throw error;
-        }
-      }
-    }
-    
-    throw new Error('Failed to acquire file lock: timeout');
-  }
-  
-  async release(): Promise<void> {
-    if (this.acquired) {
-      try {
-        await fs.unlink(this.lockPath);
-      } catch (error: any) {
-        // Ignore errors on release
-        if (error.code !== 'ENOENT') {
-          console.warn('Failed to release lock:', error.message);
-        }
-      }
-      this.acquired = false;
-    }
-  }
+export interface RotationResult {
+  rotated: number;
+  unchanged: number;
+  // Users whose token no configured key could decrypt; their entries are left untouched
+  failed: string[];
 }
 
-async function withLock<T>(fn: () => Promise<T>): Promise<T> {
-  const lock = new FileLock(LOCK_FILE);
-  try {
-    await lock.acquire();
-    return await fn();
-  } finally {
-    await lock.release();
-  }
-}
+// Backend chosen by TOKEN_STORE, opened on first use
+let storePromise: Promise<TokenStore> | null = null;
 
-async function ensureDataDir(): Promise<void> {
-  const dataDir = path.dirname(TOKENS_FILE);
-  try {
-    await fs.access(dataDir);
-  } catch {
-    await fs.mkdir(dataDir, { recursive: true });
+function getStore(): Promise<TokenStore> {
+  if (!storePromise) {
+    storePromise = createTokenStore();
+    // Let a later call retry, e.g. after fixing a busy or unreadable database
+    storePromise.catch(() => { storePromise = null; });
   }
+  return storePromise;
 }
 
-async function loadTokens(): Promise<UserTokensDatabase> {
-  try {
-    await ensureDataDir();
-    const data = await fs.readFile(TOKENS_FILE, 'utf-8');
-    return JSON.parse(data);
-  } catch (error: any) {
-    if (error.code === 'ENOENT') {
-      return {};
-    }
-    throw error;
-  }
+export async function initTokenStore(): Promise<void> {
+  await getStore();
 }
 
-async function saveTokens(tokens: UserTokensDatabase): Promise<void> {
-  await ensureDataDir();
-  
-  // Write to temp file first, then atomic rename
-  const tempFile = TOKENS_FILE + '.tmp';
-  await fs.writeFile(tempFile, JSON.stringify(tokens, null, 2), { mode: 0o600 });
-  await fs.rename(tempFile, TOKENS_FILE);
-  
-  // Ensure restrictive permissions on final file
-  await fs.chmod(TOKENS_FILE, 0o600);
+export async function closeTokenStore(): Promise<void> {
+  if (!storePromise) return;
+  const store = await storePromise;
+  storePromise = null;
+  await store.close();
 }
 
 export async function saveUserToken(
   discordUserId: string,
   githubToken: string,
-  githubUsername?: string
+  githubUsername?: string,
+  health: TokenHealth = {}
 ): Promise<void> {
-  await withLock(async () => {
-    const tokens = await loadTokens();
-    const encryptedToken = encryptToken(githubToken);
-    tokens[discordUserId] = {
-      discordUserId,
-      githubToken: encryptedToken,
-      githubUsername,
-      registeredAt: new Date().toISOString(),
-    };
-    await saveTokens(tokens);
+  const store = await getStore();
+  const now = new Date().toISOString();
+  await store.put({
+    discordUserId,
+    githubToken: encryptToken(githubToken),
+    githubUsername,
+    registeredAt: now,
+    // The token was just verified by /login
+    lastVerifiedAt: now,
+    ...health,
   });
 }
 
 export async function getUserToken(discordUserId: string): Promise<string | null> {
-  const tokens = await loadTokens();
-  const encryptedToken = tokens[discordUserId]?.githubToken;
+  const store = await getStore();
+  const encryptedToken = (await store.get(discordUserId))?.githubToken;
   if (!encryptedToken) {
     return null;
   }
@@ -153,20 +68,57 @@ export async function getUserToken(discordUserId: string): Promise<string | null
 }
 
 export async function getUserData(discordUserId: string): Promise<UserTokenData | null> {
-  const tokens = await loadTokens();
-  return tokens[discordUserId] || null;
+  const store = await getStore();
+  return await store.get(discordUserId);
 }
 
-export async function removeUserToken(discordUserId: string): Promise<boolean> {
-  return await withLock(async () => {
-    const tokens = await loadTokens();
-    if (tokens[discordUserId]) {
-      delete tokens[discordUserId];
-      await saveTokens(tokens);
-      return true;
+export async function listUserData(): Promise<UserTokenData[]> {
+  const store = await getStore();
+  return await store.list();
+}
+
+// With expectedToken (the stored, encrypted value) nothing changes if the user logged in again meanwhile
+export async function updateTokenHealth(
+  discordUserId: string,
+  changes: TokenHealth,
+  expectedToken?: string
+): Promise<UserTokenData | null> {
+  const store = await getStore();
+  // null when the user logged out, or the token was replaced, while the check was running
+  return await store.update(
+    discordUserId,
+    changes,
+    expectedToken === undefined ? undefined : current => current.githubToken === expectedToken
+  );
+}
+
+// Re-encrypts every stored token with the current ENCRYPTION_SECRET
+export async function rotateUserTokens(): Promise<RotationResult> {
+  const store = await getStore();
+  const result: RotationResult = { rotated: 0, unchanged: 0, failed: [] };
+
+  await store.updateEach(entry => {
+    if (!needsReEncryption(entry.githubToken)) {
+      result.unchanged++;
+      return null;
+    }
+
+    try {
+      const githubToken = encryptToken(decryptToken(entry.githubToken));
+      result.rotated++;
+      return { ...entry, githubToken };
+    } catch {
+      result.failed.push(entry.discordUserId);
+      return null;
     }
-    return false;
   });
+
+  return result;
+}
+
+export async function removeUserToken(discordUserId: string): Promise<boolean> {
+  const store = await getStore();
+  return await store.remove(discordUserId);
 }
 
 export async function hasUserToken(discordUserId: string): Promise<boolean> {